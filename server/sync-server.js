@@ -0,0 +1,156 @@
+// Reference sync server for SecureVault. It stores each vault as the encrypted export the
+// client pushes and never sees a password or a decrypted credential.
+//
+//   node server/sync-server.js
+//
+// Settings come from the environment:
+//   PORT            port to listen on (default 8787)
+//   SYNC_DATA_DIR   directory the vaults are stored in (default ./sync-data)
+//   SYNC_TOKEN      bearer token clients must send; without it the server is open
+//   SYNC_ORIGIN     origin allowed to call the server from a browser (default *)
+//
+// Protocol:
+//   GET /v1/vaults/:id   200 { revision, data } or 404
+//   PUT /v1/vaults/:id   body { baseRevision, data }. Stores data as revision
+//                        baseRevision + 1 and answers 200 { revision } if the stored
+//                        revision is still baseRevision (0 for none), otherwise 409.
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+import { mkdir, readFile, writeFile, rename } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_DIR = resolve(process.env.SYNC_DATA_DIR || 'sync-data');
+const TOKEN = process.env.SYNC_TOKEN || '';
+const ORIGIN = process.env.SYNC_ORIGIN || '*';
+// Vaults are small; anything much larger is not a vault export
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+const VAULT_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+// Pending write of each vault, so concurrent pushes are checked one after another
+const writes = new Map();
+
+function vaultPath(vaultId) {
+  return join(DATA_DIR, `${vaultId}.json`);
+}
+
+async function readVault(vaultId) {
+  try {
+    return JSON.parse(await readFile(vaultPath(vaultId), 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Write to a temporary file first so a crash never leaves a half-written vault
+async function writeVault(vaultId, vault) {
+  const path = vaultPath(vaultId);
+  await writeFile(`${path}.tmp`, JSON.stringify(vault));
+  await rename(`${path}.tmp`, path);
+}
+
+function pushVault(vaultId, baseRevision, data) {
+  const previous = writes.get(vaultId) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    const current = await readVault(vaultId);
+    if ((current?.revision ?? 0) !== baseRevision) return null;
+    const revision = baseRevision + 1;
+    await writeVault(vaultId, { revision, data });
+    return revision;
+  });
+  const settled = next.catch(() => {});
+  writes.set(vaultId, settled);
+  settled.then(() => {
+    if (writes.get(vaultId) === settled) writes.delete(vaultId);
+  });
+  return next;
+}
+
+function readBody(request) {
+  return new Promise((resolveBody, reject) => {
+    const chunks = [];
+    let size = 0;
+    request.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('Body too large'), { status: 413 }));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+function send(response, status, body) {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ORIGIN,
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  });
+  response.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+// Compare the Authorization header with the token in constant time. Both are hashed first
+// so their lengths don't have to match.
+function isAuthorized(header) {
+  const digest = (value) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(header ?? ''), digest(`Bearer ${TOKEN}`));
+}
+
+// Vault id from the request path, or '' if it doesn't name one
+function readVaultId(pathname) {
+  const match = /^\/v1\/vaults\/([^/]+)$/.exec(pathname);
+  if (!match) return '';
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return '';
+  }
+}
+
+async function handle(request, response) {
+  if (request.method === 'OPTIONS') return send(response, 204);
+
+  if (TOKEN && !isAuthorized(request.headers.authorization)) {
+    return send(response, 401, { error: 'Invalid access token' });
+  }
+
+  const vaultId = readVaultId(new URL(request.url, 'http://localhost').pathname);
+  if (!VAULT_ID_PATTERN.test(vaultId)) return send(response, 404, { error: 'Not found' });
+
+  if (request.method === 'GET') {
+    const vault = await readVault(vaultId);
+    return vault ? send(response, 200, vault) : send(response, 404, { error: 'Not found' });
+  }
+
+  if (request.method === 'PUT') {
+    let body;
+    try {
+      body = JSON.parse(await readBody(request));
+    } catch (error) {
+      return send(response, error.status ?? 400, { error: 'Invalid request body' });
+    }
+    if (!Number.isInteger(body?.baseRevision) || body.baseRevision < 0 || typeof body.data !== 'string') {
+      return send(response, 400, { error: 'Invalid request body' });
+    }
+    const revision = await pushVault(vaultId, body.baseRevision, body.data);
+    return revision === null ? send(response, 409, { error: 'Revision conflict' }) : send(response, 200, { revision });
+  }
+
+  send(response, 405, { error: 'Method not allowed' });
+}
+
+await mkdir(DATA_DIR, { recursive: true });
+createServer((request, response) => {
+  handle(request, response).catch((error) => {
+    console.error(error);
+    if (!response.headersSent) send(response, 500, { error: 'Internal error' });
+  });
+}).listen(PORT, () => {
+  console.log(`SecureVault sync server listening on port ${PORT}, storing vaults in ${DATA_DIR}`);
+});
@@ -0,0 +1,280 @@
+import { useState, useEffect } from 'react';
+import { Download, Upload, Lock, KeySquare, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { describeKdf, UnsupportedFormatError } from '@/lib/crypto';
+import {
+  exportVault,
+  importVault,
+  readBackupInfo,
+  verifyBackup,
+  backupFileName,
+  BackupInfo,
+  BackupContents,
+  BACKUP_FILE_EXTENSION,
+  VaultIntegrityError,
+} from '@/lib/vault';
+import { downloadFile } from '@/lib/download';
+import { toast } from 'sonner';
+
+interface BackupRestoreDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // Vault to back up; without it only restoring is offered
+  vault?: { id: string; name: string };
+  // Called with the id of the restored vault and whether it replaced one on this device
+  onRestored: (vaultId: string, replaced: boolean) => void;
+  // Backup to restore instead of a file, e.g. one downloaded from a remote target
+  backup?: { data: string; source: string } | null;
+}
+
+export function BackupRestoreDialog({ open, onClose, vault, onRestored, backup }: BackupRestoreDialogProps) {
+  const [backupData, setBackupData] = useState<string | null>(null);
+  const [info, setInfo] = useState<BackupInfo | null>(null);
+  const [contents, setContents] = useState<BackupContents | null>(null);
+  const [password, setPassword] = useState('');
+  const [secretKey, setSecretKey] = useState('');
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setBackupData(null);
+    setInfo(null);
+    setContents(null);
+    setPassword('');
+    setSecretKey('');
+    setConfirmReplace(false);
+    setError('');
+  }, [open]);
+
+  const handleDownload = async () => {
+    if (!vault) return;
+    const data = await exportVault(vault.id);
+    if (!data) {
+      toast.error('This vault has nothing to back up yet');
+      return;
+    }
+    downloadFile(data, backupFileName(vault.name));
+    toast.success('Backup downloaded');
+  };
+
+  const loadBackup = async (data: string) => {
+    try {
+      const backupInfo = await readBackupInfo(data);
+      if (!backupInfo) {
+        setError('This file is not a SecureVault backup');
+        return;
+      }
+      setBackupData(data);
+      setInfo(backupInfo);
+    } catch (err) {
+      setError(err instanceof UnsupportedFormatError ? err.message : 'The file could not be read');
+    }
+  };
+
+  useEffect(() => {
+    if (open && backup) loadBackup(backup.data);
+  }, [open, backup]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setInfo(null);
+    setContents(null);
+    setConfirmReplace(false);
+    setError('');
+    if (!file) return;
+
+    try {
+      await loadBackup(await file.text());
+    } catch {
+      setError('The file could not be read');
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!backupData || !info) return;
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const verified = await verifyBackup(backupData, password, info.needsSecretKey ? secretKey : undefined);
+      if (!verified) {
+        setError(info.usesSecretKey ? 'Invalid master password or secret key' : 'Invalid master password');
+      }
+      setContents(verified);
+    } catch (err) {
+      setError(
+        err instanceof UnsupportedFormatError || err instanceof VaultIntegrityError
+          ? err.message
+          : 'An error occurred. Please try again.'
+      );
+    }
+    setIsLoading(false);
+  };
+
+  const handleRestore = async () => {
+    if (!backupData || !info || !contents) return;
+    setIsLoading(true);
+    const vaultId = await importVault(backupData, { replace: info.existing !== null });
+    setIsLoading(false);
+    if (!vaultId) {
+      setError('The backup could not be restored');
+      return;
+    }
+    toast.success('Backup restored');
+    onRestored(vaultId, info.existing !== null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Backup & Restore</DialogTitle>
+          <DialogDescription>
+            Backups stay encrypted and can only be restored with the vault's master password.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue={vault && !backup ? 'backup' : 'restore'}>
+          {vault && !backup && (
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="backup">Backup</TabsTrigger>
+              <TabsTrigger value="restore">Restore</TabsTrigger>
+            </TabsList>
+          )}
+
+          {vault && !backup && (
+            <TabsContent value="backup" className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Download an encrypted copy of {vault.name}. Restoring it needs the master password at the time of
+                the backup, and the Secret Key if the vault uses one.
+              </p>
+              <Button className="w-full" onClick={handleDownload}>
+                <Download className="w-4 h-4 mr-2" />
+                Download Backup
+              </Button>
+            </TabsContent>
+          )}
+
+          <TabsContent value="restore" className="space-y-4">
+            {backup ? (
+              <p className="text-sm text-muted-foreground">{backup.source}</p>
+            ) : (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Backup File</label>
+                <Input type="file" accept={`${BACKUP_FILE_EXTENSION},.json`} onChange={handleFileChange} />
+              </div>
+            )}
+
+            {info && (
+              <div className="p-3 bg-secondary/30 rounded-lg text-sm space-y-1">
+                <p className="font-medium text-foreground">{info.name ?? 'Unnamed vault'}</p>
+                <p className="text-muted-foreground">
+                  {info.exportedAt ? `Backed up on ${new Date(info.exportedAt).toLocaleString()}` : 'Backup date unknown'}
+                  {` · revision ${info.revision}`}
+                </p>
+                <p className="text-muted-foreground">{describeKdf(info.kdf)}</p>
+                <p className="text-muted-foreground">
+                  {info.usesSecretKey ? 'Uses a Secret Key' : 'No Secret Key'}
+                  {info.hasRecovery && ' · Recovery Code set up'}
+                </p>
+              </div>
+            )}
+
+            {info && !contents && (
+              <form onSubmit={handleVerify} className="space-y-3">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Master Password</label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Master password of the backed-up vault"
+                      className="pl-10"
+                    />
+                  </div>
+                </div>
+                {info.needsSecretKey && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Secret Key</label>
+                    <div className="relative">
+                      <KeySquare className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                      <Input
+                        value={secretKey}
+                        onChange={(e) => setSecretKey(e.target.value)}
+                        placeholder="SV1-XXXXXX-XXXXX-XXXXX-XXXXX-XXXXX"
+                        className="pl-10 font-mono"
+                      />
+                    </div>
+                  </div>
+                )}
+                <Button type="submit" variant="outline" className="w-full" disabled={isLoading || !password}>
+                  {isLoading ? 'Checking...' : 'Check Password'}
+                </Button>
+              </form>
+            )}
+
+            {info && contents && (
+              <div className="flex items-center gap-2 text-sm text-success bg-success/10 p-3 rounded-lg">
+                <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
+                Password verified · {contents.credentialCount} credential{contents.credentialCount === 1 ? '' : 's'}
+                {contents.needsRepair > 0 && `, ${contents.needsRepair} needing repair`}
+              </div>
+            )}
+
+            {info?.existing && contents && (
+              <div className="space-y-3 p-3 bg-warning/10 border border-warning/20 rounded-lg text-sm">
+                <div className="flex gap-3">
+                  <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0 mt-0.5" />
+                  <p className="text-muted-foreground">
+                    Restoring replaces {info.existing.name} on this device. Changes made since this backup will be
+                    lost.
+                  </p>
+                </div>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <Checkbox checked={confirmReplace} onCheckedChange={(checked) => setConfirmReplace(checked === true)} />
+                  <span className="text-foreground">Replace {info.existing.name}</span>
+                </label>
+              </div>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleRestore}
+                disabled={isLoading || !contents || (info?.existing !== null && !confirmReplace)}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Restore
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
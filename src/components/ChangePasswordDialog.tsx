@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { Lock, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { calculatePasswordStrength, UnsupportedFormatError } from '@/lib/crypto';
+import { changeMasterPassword } from '@/lib/vault';
+import { toast } from 'sonner';
+
+interface ChangePasswordDialogProps {
+  vaultId: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+export function ChangePasswordDialog({ vaultId, open, onClose }: ChangePasswordDialogProps) {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const strength = calculatePasswordStrength(newPassword);
+
+  useEffect(() => {
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setError('');
+  }, [open]);
+
+  const getStrengthColor = () => {
+    switch (strength.label) {
+      case 'weak': return 'bg-destructive';
+      case 'fair': return 'bg-warning';
+      case 'good': return 'bg-primary';
+      case 'strong': return 'bg-success';
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    if (newPassword.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+    if (newPassword === currentPassword) {
+      setError('New password must be different from the current one');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const changed = await changeMasterPassword(vaultId, currentPassword, newPassword);
+      if (!changed) {
+        setError('Current master password is incorrect');
+        setIsLoading(false);
+        return;
+      }
+      toast.success('Master password changed');
+      onClose();
+    } catch (err) {
+      setError(err instanceof UnsupportedFormatError ? err.message : 'An error occurred. Please try again.');
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Change Master Password</DialogTitle>
+          <DialogDescription>
+            Your credentials stay encrypted with the same vault key; only the key protecting it is replaced.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Current Password</label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                className="pl-10"
+                autoFocus
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">New Password</label>
+            <Input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+            />
+            {newPassword && (
+              <div className="h-1.5 bg-secondary rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-300 ${getStrengthColor()}`}
+                  style={{ width: `${strength.score}%` }}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Confirm New Password</label>
+            <Input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading || !currentPassword || !newPassword}>
+              {isLoading ? 'Changing...' : 'Change Password'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
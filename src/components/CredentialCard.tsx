@@ -14,7 +14,9 @@ import {
   Briefcase,
   ShoppingBag,
   Film,
-  Key
+  Key,
+  FolderInput,
+  CopyPlus
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -22,6 +24,9 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
+  DropdownMenuSub,
+  DropdownMenuSubTrigger,
+  DropdownMenuSubContent,
 } from '@/components/ui/dropdown-menu';
 import { Credential, CATEGORY_INFO, CredentialCategory } from '@/lib/vault';
 import { calculatePasswordStrength } from '@/lib/crypto';
@@ -32,6 +37,9 @@ interface CredentialCardProps {
   onEdit: (credential: Credential) => void;
   onDelete: (id: string) => void;
   onToggleFavorite: (id: string) => void;
+  // Other unlocked vaults the credential can be moved or copied to
+  transferTargets?: { id: string; name: string }[];
+  onTransfer?: (id: string, targetVaultId: string, move: boolean) => void;
 }
 
 const CATEGORY_ICONS: Record<CredentialCategory, React.ElementType> = {
@@ -43,7 +51,14 @@ const CATEGORY_ICONS: Record<CredentialCategory, React.ElementType> = {
   other: Key,
 };
 
-export function CredentialCard({ credential, onEdit, onDelete, onToggleFavorite }: CredentialCardProps) {
+export function CredentialCard({
+  credential,
+  onEdit,
+  onDelete,
+  onToggleFavorite,
+  transferTargets = [],
+  onTransfer,
+}: CredentialCardProps) {
   const [showPassword, setShowPassword] = useState(false);
   const [copiedField, setCopiedField] = useState<string | null>(null);
 
@@ -139,6 +154,36 @@ export function CredentialCard({ credential, onEdit, onDelete, onToggleFavorite
               <Star className="w-4 h-4 mr-2" />
               {credential.favorite ? 'Remove from favorites' : 'Add to favorites'}
             </DropdownMenuItem>
+            {onTransfer && transferTargets.length > 0 && (
+              <>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <FolderInput className="w-4 h-4 mr-2" />
+                    Move to
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    {transferTargets.map((target) => (
+                      <DropdownMenuItem key={target.id} onClick={() => onTransfer(credential.id, target.id, true)}>
+                        {target.name}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <CopyPlus className="w-4 h-4 mr-2" />
+                    Copy to
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    {transferTargets.map((target) => (
+                      <DropdownMenuItem key={target.id} onClick={() => onTransfer(credential.id, target.id, false)}>
+                        {target.name}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              </>
+            )}
             <DropdownMenuItem 
               onClick={() => onDelete(credential.id)}
               className="text-destructive focus:text-destructive"
@@ -0,0 +1,190 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CredentialCategory, CATEGORY_INFO } from '@/lib/vault';
+import { CsvDelimiter, CsvQuote, TextEncoding, CSV_DELIMITERS, CSV_QUOTES, TEXT_ENCODINGS } from '@/lib/csv';
+import {
+  createCsvMapping,
+  mapCsvColumns,
+  CsvMapping,
+  CsvOptions,
+  MappedField,
+  MAPPED_FIELDS,
+} from '@/lib/importers';
+
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+const QUOTE_LABELS: Record<CsvQuote, string> = {
+  '"': 'Double quote',
+  "'": 'Single quote',
+};
+
+const ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252',
+};
+
+// Select values can't be empty
+const UNMAPPED = 'none';
+
+interface CsvMappingStepProps {
+  bytes: Uint8Array;
+  mapping: CsvMapping;
+  onChange: (mapping: CsvMapping) => void;
+}
+
+export function CsvMappingStep({ bytes, mapping, onChange }: CsvMappingStepProps) {
+  const { table, columns, categories } = mapping;
+
+  // Reading the file again changes the columns, so the mapping is guessed again
+  const setOption = (options: Partial<CsvOptions>) => {
+    onChange(createCsvMapping(bytes, { ...table.options, ...options }));
+  };
+
+  const setColumn = (field: MappedField, value: string) => {
+    const next = { ...columns };
+    if (value === UNMAPPED) delete next[field];
+    else next[field] = Number(value);
+    onChange(mapCsvColumns(table, next, categories));
+  };
+
+  // First non-empty value of a column, hiding passwords
+  const sample = (field: MappedField) => {
+    const index = columns[field];
+    if (index === undefined) return '';
+    const value = table.rows.map((row) => row[index]?.trim()).find(Boolean) ?? '';
+    return field === 'password' ? '•'.repeat(Math.min(value.length, 12)) : value;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Delimiter</label>
+          <Select value={table.options.delimiter} onValueChange={(v) => setOption({ delimiter: v as CsvDelimiter })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CSV_DELIMITERS.map((delimiter) => (
+                <SelectItem key={delimiter} value={delimiter}>
+                  {DELIMITER_LABELS[delimiter]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Quote</label>
+          <Select value={table.options.quote} onValueChange={(v) => setOption({ quote: v as CsvQuote })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CSV_QUOTES.map((quote) => (
+                <SelectItem key={quote} value={quote}>
+                  {QUOTE_LABELS[quote]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Encoding</label>
+          <Select value={table.options.encoding} onValueChange={(v) => setOption({ encoding: v as TextEncoding })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TEXT_ENCODINGS.map((encoding) => (
+                <SelectItem key={encoding} value={encoding}>
+                  {ENCODING_LABELS[encoding]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <Checkbox
+          checked={table.options.hasHeader}
+          onCheckedChange={(checked) => setOption({ hasHeader: checked === true })}
+        />
+        The first row holds column names
+      </label>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Columns</p>
+        <div className="max-h-64 overflow-y-auto space-y-2">
+          {(Object.keys(MAPPED_FIELDS) as MappedField[]).map((field) => (
+            <div key={field} className="grid grid-cols-[6rem_1fr_1fr] items-center gap-3 text-sm">
+              <span className="text-muted-foreground">{MAPPED_FIELDS[field]}</span>
+              <Select value={columns[field]?.toString() ?? UNMAPPED} onValueChange={(v) => setColumn(field, v)}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNMAPPED}>Not imported</SelectItem>
+                  {table.columns.map((column, index) => (
+                    <SelectItem key={index} value={index.toString()}>
+                      {column}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="truncate text-xs text-muted-foreground">{sample(field)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {Object.keys(categories).length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Categories</p>
+          <div className="max-h-48 overflow-y-auto space-y-2">
+            {Object.entries(categories).map(([value, category]) => (
+              <div key={value} className="grid grid-cols-2 items-center gap-3 text-sm">
+                <span className="truncate">{value}</span>
+                <Select
+                  value={category}
+                  onValueChange={(v) =>
+                    onChange({ ...mapping, categories: { ...categories, [value]: v as CredentialCategory } })
+                  }
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CATEGORY_INFO).map(([key, info]) => (
+                      <SelectItem key={key} value={key}>
+                        <span className={info.color}>{info.label}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {table.rows.length} row{table.rows.length === 1 ? '' : 's'} found. Nothing is saved until you confirm the
+        preview.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import { Download, Printer, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { EmergencyKit, downloadEmergencyKit, printEmergencyKit } from '@/lib/recovery';
+
+interface EmergencyKitDialogProps {
+  kit: EmergencyKit | null;
+  onDone: () => void;
+}
+
+export function EmergencyKitDialog({ kit, onDone }: EmergencyKitDialogProps) {
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setSaved(false);
+  }, [kit]);
+
+  return (
+    <Dialog open={!!kit} onOpenChange={(open) => !open && saved && onDone()}>
+      <DialogContent className="sm:max-w-lg bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Save Your Emergency Kit</DialogTitle>
+          <DialogDescription>
+            Your vault is protected by your master password and a Secret Key. You need both to open it on
+            another device or from a backup. The Recovery Code resets a forgotten master password.
+          </DialogDescription>
+        </DialogHeader>
+
+        {kit && (
+          <div className="space-y-3">
+            <div className="p-3 bg-secondary/30 rounded-lg">
+              <p className="text-xs text-muted-foreground">Secret Key</p>
+              <p className="font-mono text-sm mt-1 break-all select-all">{kit.secretKey}</p>
+            </div>
+            <div className="p-3 bg-secondary/30 rounded-lg">
+              <p className="text-xs text-muted-foreground">Recovery Code</p>
+              <p className="font-mono text-sm mt-1 break-all select-all">{kit.recoveryCode}</p>
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => downloadEmergencyKit(kit)}>
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+              <Button variant="outline" className="flex-1" onClick={() => printEmergencyKit(kit)}>
+                <Printer className="w-4 h-4 mr-2" />
+                Print / PDF
+              </Button>
+            </div>
+
+            <div className="flex gap-3 p-3 bg-warning/10 border border-warning/20 rounded-lg text-sm">
+              <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0 mt-0.5" />
+              <p className="text-muted-foreground">
+                The Recovery Code is shown only once and is not stored on this device. Anyone with this kit
+                can reset your master password, so keep it somewhere safe and offline.
+              </p>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox checked={saved} onCheckedChange={(checked) => setSaved(checked === true)} />
+              I have saved my Emergency Kit
+            </label>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={onDone} disabled={!saved}>
+            Continue to Vault
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState, useEffect } from 'react';
+import { Lock, AlertTriangle, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { UnsupportedFormatError } from '@/lib/crypto';
+import { Credential, CredentialCategory, CATEGORY_INFO, verifyMasterPassword, backupFileName } from '@/lib/vault';
+import {
+  exportCredentials,
+  encryptExport,
+  filterForExport,
+  ExportFormat,
+  EXPORT_FORMATS,
+  ENCRYPTED_EXPORT_EXTENSION,
+} from '@/lib/exporters';
+import { downloadFile } from '@/lib/download';
+import { toast } from 'sonner';
+
+const MIN_EXPORT_PASSWORD_LENGTH = 8;
+
+interface ExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  vaultId: string;
+  vaultName: string;
+  credentials: Credential[];
+}
+
+export function ExportDialog({ open, onClose, vaultId, vaultName, credentials }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('bitwarden-json');
+  const [categories, setCategories] = useState<CredentialCategory[]>([]);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [encryptFile, setEncryptFile] = useState(false);
+  const [exportPassword, setExportPassword] = useState('');
+  const [confirmExportPassword, setConfirmExportPassword] = useState('');
+  const [masterPassword, setMasterPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setFormat('bitwarden-json');
+    setCategories([]);
+    setFavoritesOnly(false);
+    setEncryptFile(false);
+    setExportPassword('');
+    setConfirmExportPassword('');
+    setMasterPassword('');
+    setError('');
+  }, [open]);
+
+  const selected = filterForExport(credentials, { categories, favoritesOnly });
+
+  const toggleCategory = (category: CredentialCategory, checked: boolean) => {
+    setCategories(checked ? [...categories, category] : categories.filter((c) => c !== category));
+  };
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (encryptFile) {
+      if (exportPassword.length < MIN_EXPORT_PASSWORD_LENGTH) {
+        setError(`The export password must be at least ${MIN_EXPORT_PASSWORD_LENGTH} characters`);
+        return;
+      }
+      if (exportPassword !== confirmExportPassword) {
+        setError('Export passwords do not match');
+        return;
+      }
+    }
+
+    setIsLoading(true);
+    try {
+      if (!(await verifyMasterPassword(vaultId, masterPassword))) {
+        setError('Invalid master password');
+        setIsLoading(false);
+        return;
+      }
+
+      const contents = exportCredentials(format, selected);
+      const info = EXPORT_FORMATS[format];
+      if (encryptFile) {
+        const encrypted = await encryptExport(format, contents, exportPassword);
+        downloadFile(encrypted, backupFileName(vaultName, undefined, ENCRYPTED_EXPORT_EXTENSION), 'application/json');
+      } else {
+        downloadFile(contents, backupFileName(vaultName, undefined, info.extension), info.mimeType);
+      }
+      toast.success(`Exported ${selected.length} credential${selected.length === 1 ? '' : 's'}`);
+      onClose();
+    } catch (err) {
+      setError(err instanceof UnsupportedFormatError ? err.message : 'The export could not be created');
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Export to Another App</DialogTitle>
+          <DialogDescription>
+            Export credentials in a format other password managers and browsers can import.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleExport} className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Format</label>
+            <Select value={format} onValueChange={(v) => setFormat(v as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(EXPORT_FORMATS).map(([key, info]) => (
+                  <SelectItem key={key} value={key}>
+                    {info.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Categories</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(CATEGORY_INFO) as CredentialCategory[]).map((category) => (
+                <label key={category} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={categories.includes(category)}
+                    onCheckedChange={(checked) => toggleCategory(category, checked === true)}
+                  />
+                  <span className={CATEGORY_INFO[category].color}>{CATEGORY_INFO[category].label}</span>
+                </label>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={favoritesOnly} onCheckedChange={(checked) => setFavoritesOnly(checked === true)} />
+              Favorites only
+            </label>
+            <p className="text-xs text-muted-foreground">
+              {categories.length === 0 ? 'All categories' : `${categories.length} selected`} ·{' '}
+              {selected.length} credential{selected.length === 1 ? '' : 's'} will be exported
+            </p>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={encryptFile} onCheckedChange={(checked) => setEncryptFile(checked === true)} />
+            Encrypt the export with a separate password
+          </label>
+
+          {encryptFile ? (
+            <>
+              <div className="flex items-start gap-2 p-3 bg-secondary/30 rounded-lg text-sm text-muted-foreground">
+                <ShieldCheck className="w-4 h-4 text-success flex-shrink-0 mt-0.5" />
+                The encrypted file can only be opened by SecureVault's import. Other apps can't read it.
+              </div>
+              <Input
+                type="password"
+                value={exportPassword}
+                onChange={(e) => setExportPassword(e.target.value)}
+                placeholder="Export password"
+              />
+              <Input
+                type="password"
+                value={confirmExportPassword}
+                onChange={(e) => setConfirmExportPassword(e.target.value)}
+                placeholder="Confirm export password"
+              />
+            </>
+          ) : (
+            <div className="flex items-start gap-3 p-4 bg-destructive/10 border border-destructive/30 rounded-lg text-sm">
+              <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0" />
+              <div>
+                <p className="font-medium text-destructive">This file is not encrypted</p>
+                <p className="text-muted-foreground mt-1">
+                  Every password in it can be read by anyone or anything with access to the file, including
+                  backups and sync services. Import it right away and then delete it.
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Master Password</label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                type="password"
+                value={masterPassword}
+                onChange={(e) => setMasterPassword(e.target.value)}
+                placeholder="Enter your master password to export"
+                className="pl-10"
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant={encryptFile ? 'default' : 'destructive'}
+              disabled={isLoading || !masterPassword || selected.length === 0}
+            >
+              {isLoading ? 'Exporting...' : encryptFile ? 'Export' : 'Export Unencrypted'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,349 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, ChevronDown, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { CsvMappingStep } from '@/components/CsvMappingStep';
+import { Credential, CredentialCategory, CATEGORY_INFO } from '@/lib/vault';
+import {
+  parseImport,
+  detectImportFormat,
+  needsImportKey,
+  createCsvMapping,
+  importCsvRows,
+  ImportFormat,
+  ImportResult,
+  ImportError,
+  CsvMapping,
+  IMPORT_FORMATS,
+} from '@/lib/importers';
+
+const ACCEPTED_FILES = [...new Set(Object.values(IMPORT_FORMATS).map((f) => f.accept))].join(',');
+
+// Any other CSV file, whose columns the user maps
+const CUSTOM_CSV = 'custom-csv';
+
+interface ImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImport: (credentials: Credential[]) => Promise<void>;
+}
+
+export function ImportDialog({ open, onClose, onImport }: ImportDialogProps) {
+  const [fileBytes, setFileBytes] = useState<Uint8Array | null>(null);
+  const [format, setFormat] = useState<ImportFormat | typeof CUSTOM_CSV | null>(null);
+  const [csvMapping, setCsvMapping] = useState<CsvMapping | null>(null);
+  const [password, setPassword] = useState('');
+  const [keyFile, setKeyFile] = useState<Uint8Array | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [showIssues, setShowIssues] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setFileBytes(null);
+    setFormat(null);
+    setCsvMapping(null);
+    setPassword('');
+    setKeyFile(null);
+    setResult(null);
+    setExcluded(new Set());
+    setShowIssues(false);
+    setError('');
+  }, [open]);
+
+  const selected = result ? result.credentials.filter((c) => !excluded.has(c.id)) : [];
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setFileBytes(null);
+    setError('');
+    if (!file) return;
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    setFileBytes(bytes);
+    setFormat(detectImportFormat(file.name, bytes) ?? (file.name.toLowerCase().endsWith('.csv') ? CUSTOM_CSV : null));
+  };
+
+  const handleKeyFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setKeyFile(file ? new Uint8Array(await file.arrayBuffer()) : null);
+  };
+
+  const handleRead = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fileBytes || !format) return;
+    setError('');
+    setIsLoading(true);
+    try {
+      if (format === CUSTOM_CSV) {
+        setCsvMapping(createCsvMapping(fileBytes));
+      } else {
+        setResult(await parseImport(format, fileBytes, { password, keyFile: keyFile ?? undefined }));
+        setExcluded(new Set());
+      }
+    } catch (err) {
+      setError(err instanceof ImportError ? err.message : 'The file could not be read');
+    }
+    setIsLoading(false);
+  };
+
+  // Dry run of the mapping; nothing is saved until the preview is confirmed
+  const handlePreviewMapping = () => {
+    if (!csvMapping) return;
+    setError('');
+    try {
+      setResult(importCsvRows(csvMapping));
+      setExcluded(new Set());
+    } catch (err) {
+      setError(err instanceof ImportError ? err.message : 'The file could not be read');
+    }
+  };
+
+  const toggleIncluded = (id: string, included: boolean) => {
+    const next = new Set(excluded);
+    if (included) next.delete(id);
+    else next.add(id);
+    setExcluded(next);
+  };
+
+  const setCategory = (id: string, category: CredentialCategory) => {
+    if (!result) return;
+    setResult({
+      ...result,
+      credentials: result.credentials.map((c) => (c.id === id ? { ...c, category } : c)),
+    });
+  };
+
+  const handleImport = async () => {
+    setIsLoading(true);
+    try {
+      await onImport(selected);
+      onClose();
+    } catch {
+      setError('The imported credentials could not be saved');
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-3xl bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Import from Another App</DialogTitle>
+          <DialogDescription>
+            Import logins exported from another password manager, a browser or a spreadsheet. Delete the export file afterwards;
+            it isn't encrypted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-4">
+            {result.credentials.length > 0 ? (
+              <div className="max-h-80 overflow-y-auto border border-border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={excluded.size === 0}
+                          onCheckedChange={(checked) =>
+                            setExcluded(checked === true ? new Set() : new Set(result.credentials.map((c) => c.id)))
+                          }
+                        />
+                      </TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Username</TableHead>
+                      <TableHead>URL</TableHead>
+                      <TableHead className="w-40">Category</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.credentials.map((credential) => (
+                      <TableRow key={credential.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={!excluded.has(credential.id)}
+                            onCheckedChange={(checked) => toggleIncluded(credential.id, checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell className="max-w-40 truncate">{credential.name}</TableCell>
+                        <TableCell className="max-w-40 truncate">{credential.username}</TableCell>
+                        <TableCell className="max-w-48 truncate text-muted-foreground">{credential.url}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={credential.category}
+                            onValueChange={(v) => setCategory(credential.id, v as CredentialCategory)}
+                          >
+                            <SelectTrigger className="h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(CATEGORY_INFO).map(([key, info]) => (
+                                <SelectItem key={key} value={key}>
+                                  <span className={info.color}>{info.label}</span>
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No logins were found in this file.</p>
+            )}
+
+            {result.issues.length > 0 && (
+              <div className="p-3 bg-warning/10 border border-warning/20 rounded-lg text-sm">
+                <button
+                  type="button"
+                  onClick={() => setShowIssues(!showIssues)}
+                  className="flex items-center gap-2 w-full text-left"
+                >
+                  <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0" />
+                  <span className="flex-1 text-foreground">
+                    {result.issues.length} entr{result.issues.length === 1 ? 'y' : 'ies'} can't be imported
+                  </span>
+                  <ChevronDown className={`w-4 h-4 transition-transform ${showIssues ? 'rotate-180' : ''}`} />
+                </button>
+                {showIssues && (
+                  <ul className="mt-2 max-h-40 overflow-y-auto space-y-1 text-xs text-muted-foreground">
+                    {result.issues.map((issue, index) => (
+                      <li key={index}>
+                        <span className="text-foreground">{issue.location}</span>: {issue.reason}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button variant="outline" onClick={() => setResult(null)}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={isLoading || selected.length === 0}>
+                {isLoading ? 'Importing...' : `Import ${selected.length} Credential${selected.length === 1 ? '' : 's'}`}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : csvMapping && fileBytes ? (
+          <div className="space-y-4">
+            <CsvMappingStep bytes={fileBytes} mapping={csvMapping} onChange={setCsvMapping} />
+
+            {error && (
+              <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button variant="outline" onClick={() => setCsvMapping(null)}>
+                Back
+              </Button>
+              <Button
+                onClick={handlePreviewMapping}
+                disabled={csvMapping.columns.password === undefined && csvMapping.columns.username === undefined}
+              >
+                Preview
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleRead} className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Export File</label>
+              <Input type="file" accept={ACCEPTED_FILES} onChange={handleFileChange} />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Format</label>
+              <Select value={format ?? undefined} onValueChange={(v) => setFormat(v as ImportFormat | typeof CUSTOM_CSV)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose the app the file was exported from" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(IMPORT_FORMATS).map(([key, info]) => (
+                    <SelectItem key={key} value={key}>
+                      {info.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_CSV}>Other CSV (choose columns)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {format && format !== CUSTOM_CSV && needsImportKey(format) && (
+              <>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">
+                    {format === 'keepass-kdbx' ? 'Database Password' : 'Export Password'}
+                  </label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="pl-10"
+                    />
+                  </div>
+                </div>
+                {format === 'keepass-kdbx' && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Key File (optional)</label>
+                    <Input type="file" onChange={handleKeyFileChange} />
+                  </div>
+                )}
+              </>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading || !fileBytes || !format}>
+                {isLoading ? 'Reading...' : format === CUSTOM_CSV ? 'Continue' : 'Preview'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState, useEffect } from 'react';
+import { Lock, AlertTriangle, FileKey } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Credential, backupFileName } from '@/lib/vault';
+import { writeKdbx, createKeyFile, KDBX_FILE_EXTENSION } from '@/lib/kdbx';
+import { downloadFile } from '@/lib/download';
+import { toast } from 'sonner';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+interface KdbxExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  vaultName: string;
+  credentials: Credential[];
+}
+
+export function KdbxExportDialog({ open, onClose, vaultName, credentials }: KdbxExportDialogProps) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [keyFile, setKeyFile] = useState<Uint8Array | null>(null);
+  const [keyFileName, setKeyFileName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setPassword('');
+    setConfirmPassword('');
+    setKeyFile(null);
+    setKeyFileName('');
+    setError('');
+  }, [open]);
+
+  const handleKeyFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setKeyFile(file ? new Uint8Array(await file.arrayBuffer()) : null);
+    setKeyFileName(file?.name ?? '');
+  };
+
+  // A new key file is downloaded right away; the database can't be opened without it
+  const handleCreateKeyFile = async () => {
+    const bytes = await createKeyFile();
+    const filename = backupFileName(vaultName, undefined, '.keyx');
+    downloadFile(bytes, filename, 'application/xml');
+    setKeyFile(bytes);
+    setKeyFileName(filename);
+  };
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!keyFile && password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Use a password of at least ${MIN_PASSWORD_LENGTH} characters or a key file`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const bytes = await writeKdbx(credentials, vaultName, { password, keyFile: keyFile ?? undefined });
+      downloadFile(bytes, backupFileName(vaultName, undefined, KDBX_FILE_EXTENSION), 'application/octet-stream');
+      toast.success('KeePass database downloaded');
+      onClose();
+    } catch {
+      setError('The KeePass database could not be created');
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Export to KeePass</DialogTitle>
+          <DialogDescription>
+            Save the {credentials.length} credential{credentials.length === 1 ? '' : 's'} of this vault as a KDBX 4
+            database for KeePassXC and other KeePass apps, grouped by category.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleExport} className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Database Password</label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Confirm Password</label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Key File (optional)</label>
+            <div className="flex gap-2">
+              <Input type="file" onChange={handleKeyFileChange} />
+              <Button type="button" variant="outline" onClick={handleCreateKeyFile}>
+                <FileKey className="w-4 h-4 mr-2" />
+                New
+              </Button>
+            </div>
+            {keyFileName && (
+              <p className="text-xs text-muted-foreground">
+                Using {keyFileName}. Keep it safe; the database can't be opened without it.
+              </p>
+            )}
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading || credentials.length === 0}>
+              {isLoading ? 'Exporting...' : 'Export'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,130 @@
+import { Gauge } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  KdfId,
+  KdfParams,
+  KdfBenchmark,
+  DEFAULT_ARGON2ID,
+  RECOMMENDED_KDF,
+  validateKdfParams,
+  calibrateKdf,
+  estimateKdfMs,
+} from '@/lib/crypto';
+
+interface KdfSettingsProps {
+  value: KdfParams;
+  onChange: (kdf: KdfParams) => void;
+  benchmark?: KdfBenchmark | null;
+}
+
+const KDF_LABELS: Record<KdfId, string> = {
+  'pbkdf2-sha256': 'PBKDF2-SHA256',
+  argon2id: 'Argon2id (memory-hard)',
+};
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `~${Math.round(ms)} ms` : `~${(ms / 1000).toFixed(1)} s`;
+}
+
+export function KdfSettings({ value, onChange, benchmark }: KdfSettingsProps) {
+  const error = validateKdfParams(value);
+
+  const handleAlgorithmChange = (id: KdfId) => {
+    if (benchmark) {
+      onChange(calibrateKdf(id, benchmark));
+    } else {
+      onChange(id === 'argon2id' ? DEFAULT_ARGON2ID : RECOMMENDED_KDF);
+    }
+  };
+
+  const parseNumber = (input: string) => parseInt(input, 10) || 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-foreground">Key derivation</label>
+        <Select value={value.id} onValueChange={(v) => handleAlgorithmChange(v as KdfId)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(KDF_LABELS).map(([id, label]) => (
+              <SelectItem key={id} value={id}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.id === 'pbkdf2-sha256' ? (
+        <div className="space-y-2">
+          <label className="text-xs text-muted-foreground">Iterations</label>
+          <Input
+            type="number"
+            min={100000}
+            step={50000}
+            value={value.iterations}
+            onChange={(e) => onChange({ ...value, iterations: parseNumber(e.target.value) })}
+          />
+        </div>
+      ) : (
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-2">
+            <label className="text-xs text-muted-foreground">Memory (MiB)</label>
+            <Input
+              type="number"
+              min={8}
+              value={Math.round(value.memoryKiB / 1024)}
+              onChange={(e) => onChange({ ...value, memoryKiB: parseNumber(e.target.value) * 1024 })}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs text-muted-foreground">Iterations</label>
+            <Input
+              type="number"
+              min={1}
+              value={value.iterations}
+              onChange={(e) => onChange({ ...value, iterations: parseNumber(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs text-muted-foreground">Parallelism</label>
+            <Input
+              type="number"
+              min={1}
+              max={16}
+              value={value.parallelism}
+              onChange={(e) => onChange({ ...value, parallelism: parseNumber(e.target.value) })}
+            />
+          </div>
+        </div>
+      )}
+
+      {benchmark && !error && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Gauge className="w-3.5 h-3.5" />
+            Estimated unlock time: {formatDuration(estimateKdfMs(value, benchmark))}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(calibrateKdf(value.id, benchmark))}
+          >
+            Use calibrated
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
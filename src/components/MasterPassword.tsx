@@ -1,22 +1,209 @@
-import { useState } from 'react';
-import { Shield, Lock, Eye, EyeOff, AlertTriangle } from 'lucide-react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Shield, Lock, Eye, EyeOff, AlertTriangle, ChevronDown, SlidersHorizontal, Gauge, KeySquare, Timer, Trash2, Vault } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { calculatePasswordStrength } from '@/lib/crypto';
-import { createVault, vaultExists, unlockVault, Credential } from '@/lib/vault';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  calculatePasswordStrength,
+  validateKdfParams,
+  benchmarkKdf,
+  calibrateKdf,
+  estimateKdfMs,
+  describeKdf,
+  KdfParams,
+  KdfBenchmark,
+  RECOMMENDED_KDF,
+  UnsupportedFormatError,
+} from '@/lib/crypto';
+import {
+  createVault,
+  unlockVault,
+  listVaults,
+  readLastVaultId,
+  deleteVaultWithPassword,
+  normalizeVaultName,
+  DEFAULT_VAULT_NAME,
+  MAX_VAULT_NAME_LENGTH,
+  BACKUP_FILE_EXTENSION,
+  isSecretKeyRequired,
+  vaultHasRecovery,
+  readTrusteeRecovery,
+  Credential,
+  VaultSession,
+  VaultEntry,
+  UnlockedVault,
+  VaultIntegrityError,
+  VaultWipedError,
+} from '@/lib/vault';
+import { getUnlockRetryAt, getAttemptsBeforeWipe, UnlockThrottledError } from '@/lib/throttle';
+import { EmergencyKit } from '@/lib/recovery';
+import {
+  supportsFileHandles,
+  pickVaultFile,
+  pickNewVaultFile,
+  openVaultFile,
+  linkVaultFile,
+  syncVaultFile,
+  loadVaultFile,
+  downloadVaultFile,
+  unlinkVaultFile,
+  vaultFileName,
+  VaultFileError,
+} from '@/lib/vaultFile';
+import { KdfSettings } from './KdfSettings';
+import { EmergencyKitDialog } from './EmergencyKitDialog';
+import { RecoveryDialog } from './RecoveryDialog';
+import { BackupRestoreDialog } from './BackupRestoreDialog';
+import { SyncDownloadDialog } from './SyncDownloadDialog';
 import { toast } from 'sonner';
 
+// Format a remaining wait time for display
+function formatWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds} s`;
+  return `${Math.floor(seconds / 60)} min ${seconds % 60} s`;
+}
+
 interface MasterPasswordProps {
-  onUnlock: (credentials: Credential[], masterPassword: string) => void;
+  onUnlock: (credentials: Credential[], session: VaultSession, name: string) => void;
+  // Shown when unlocking another vault while one is already open
+  onCancel?: () => void;
+  // Vaults that are already unlocked and shouldn't be offered
+  excludeVaultIds?: string[];
 }
 
-export function MasterPassword({ onUnlock }: MasterPasswordProps) {
-  const [isNewVault, setIsNewVault] = useState(!vaultExists());
+export function MasterPassword({ onUnlock, onCancel, excludeVaultIds = [] }: MasterPasswordProps) {
+  const [isCheckingVault, setIsCheckingVault] = useState(true);
+  const [isNewVault, setIsNewVault] = useState(false);
+  const [vaults, setVaults] = useState<VaultEntry[]>([]);
+  const [selectedVaultId, setSelectedVaultId] = useState<string | null>(null);
+  const [vaultName, setVaultName] = useState('');
+  const [showDeleteVault, setShowDeleteVault] = useState(false);
+  const [deletePassword, setDeletePassword] = useState('');
+  const [deleteError, setDeleteError] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [showRestore, setShowRestore] = useState(false);
+  const [showSyncDownload, setShowSyncDownload] = useState(false);
+  const [secretKeyRequired, setSecretKeyRequired] = useState(false);
+  const [hasRecovery, setHasRecovery] = useState(false);
+  const [hasTrustees, setHasTrustees] = useState(false);
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [kdf, setKdf] = useState<KdfParams>(RECOMMENDED_KDF);
+  const [benchmark, setBenchmark] = useState<KdfBenchmark | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [useEmergencyKit, setUseEmergencyKit] = useState(false);
+  const [keepInFile, setKeepInFile] = useState(false);
+  // Vault file waiting for the user to confirm it replaces a vault on this device
+  const [pendingFile, setPendingFile] = useState<{ source: FileSystemFileHandle | File; replaces: VaultEntry } | null>(
+    null
+  );
+  // Used to upload a vault file where there are no file handles
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [secretKey, setSecretKey] = useState('');
+  const [createdKit, setCreatedKit] = useState<EmergencyKit | null>(null);
+  const [createdSession, setCreatedSession] = useState<VaultSession | null>(null);
+  const [recoveryMode, setRecoveryMode] = useState<'code' | 'shares' | null>(null);
+  const [retryAt, setRetryAt] = useState(0);
+  const [now, setNow] = useState(Date.now);
+  const [attemptsBeforeWipe, setAttemptsBeforeWipe] = useState<number | null>(null);
+
+  const needsSecretKey = !isNewVault && secretKeyRequired;
+  const selectedVault = vaults.find((entry) => entry.id === selectedVaultId) ?? null;
+  // Joined so a new array from the parent on every render doesn't reload the directory
+  const excludedIds = excludeVaultIds.join(',');
+
+  // Load the vaults on this device, keeping the current selection if it still exists
+  const loadVaults = useCallback(async () => {
+    const [directory, lastId] = await Promise.all([listVaults(), readLastVaultId()]);
+    const excluded = excludedIds.split(',');
+    const available = directory.filter((entry) => !excluded.includes(entry.id));
+    const isAvailable = (id: string | null) => available.some((entry) => entry.id === id);
+    setVaults(available);
+    setSelectedVaultId((current) =>
+      isAvailable(current) ? current : isAvailable(lastId) ? lastId : available[0]?.id ?? null
+    );
+    if (available.length === 0) setIsNewVault(true);
+    setIsCheckingVault(false);
+  }, [excludedIds]);
+
+  useEffect(() => {
+    loadVaults();
+  }, [loadVaults]);
+
+  // Load what the selected vault needs for unlocking and recovery
+  const refreshVaultState = useCallback(async () => {
+    if (!selectedVaultId) return;
+    const [required, recovery, trustees] = await Promise.all([
+      isSecretKeyRequired(selectedVaultId),
+      vaultHasRecovery(selectedVaultId),
+      readTrusteeRecovery(selectedVaultId),
+    ]);
+    setSecretKeyRequired(required);
+    setHasRecovery(recovery);
+    setHasTrustees(trustees !== null);
+    setNow(Date.now());
+    setRetryAt(getUnlockRetryAt(selectedVaultId));
+    setAttemptsBeforeWipe(getAttemptsBeforeWipe(selectedVaultId));
+  }, [selectedVaultId]);
+
+  useEffect(() => {
+    refreshVaultState();
+  }, [refreshVaultState]);
+  const waitMs = !isNewVault && retryAt > now ? retryAt - now : 0;
+
+  // Count down while unlocking is throttled after failed attempts
+  useEffect(() => {
+    if (!retryAt) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) setRetryAt(0);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  // Benchmark the device once so new vaults get parameters that hit the target unlock time
+  useEffect(() => {
+    if (!isNewVault || benchmark) return;
+
+    let cancelled = false;
+    setIsCalibrating(true);
+    benchmarkKdf()
+      .then((result) => {
+        if (cancelled) return;
+        setBenchmark(result);
+        setKdf((current) => calibrateKdf(current.id, result));
+      })
+      .catch(() => {
+        // Keep the default parameters if benchmarking fails
+      })
+      .finally(() => {
+        if (!cancelled) setIsCalibrating(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isNewVault, benchmark]);
 
   const strength = calculatePasswordStrength(password);
 
@@ -29,6 +216,168 @@ export function MasterPassword({ onUnlock }: MasterPasswordProps) {
     }
   };
 
+  const handleUnlocked = (unlocked: UnlockedVault) => {
+    if (unlocked.rollback) {
+      toast.error('Possible vault rollback detected', {
+        description:
+          `The stored vault is revision ${unlocked.rollback.foundRevision}, but this device has already ` +
+          `seen revision ${unlocked.rollback.expectedRevision}. Recent changes may be missing or the ` +
+          'vault may have been replaced with an older copy.',
+        duration: Infinity,
+      });
+    } else {
+      toast.success('Vault unlocked');
+    }
+    if (unlocked.failedAttempts) {
+      const { count, lastAttemptAt } = unlocked.failedAttempts;
+      toast.warning(`${count} failed unlock attempt${count === 1 ? '' : 's'} since your last unlock`, {
+        description: `The most recent was on ${new Date(lastAttemptAt).toLocaleString()}.`,
+        duration: 10000,
+      });
+    }
+    const { quarantine } = unlocked.session;
+    if (quarantine.length > 0) {
+      toast.warning(`${quarantine.length} item${quarantine.length === 1 ? '' : 's'} in this vault could not be read`, {
+        description: 'Review them under Needs Repair to fix or discard them.',
+        duration: 10000,
+      });
+    }
+    onUnlock(unlocked.credentials, unlocked.session, selectedVault?.name ?? '');
+  };
+
+  const handleKitSaved = () => {
+    const session = createdSession;
+    setCreatedKit(null);
+    setCreatedSession(null);
+    if (session) onUnlock([], session, normalizeVaultName(vaultName) ?? DEFAULT_VAULT_NAME);
+  };
+
+  // Refresh the throttle state after a failed attempt
+  const handleFailedAttempt = () => {
+    if (!selectedVaultId) return;
+    setNow(Date.now());
+    setRetryAt(getUnlockRetryAt(selectedVaultId));
+    setAttemptsBeforeWipe(getAttemptsBeforeWipe(selectedVaultId));
+  };
+
+  const handleWiped = (err: VaultWipedError) => {
+    // A vault restored later under the same id must not be written to the old file
+    if (selectedVaultId) unlinkVaultFile(selectedVaultId).catch(() => {});
+    setPassword('');
+    setSecretKey('');
+    setRetryAt(0);
+    setAttemptsBeforeWipe(null);
+    setError(err.message);
+    loadVaults();
+  };
+
+  const handleSelectVault = (vaultId: string) => {
+    setSelectedVaultId(vaultId);
+    setPassword('');
+    setSecretKey('');
+    setError('');
+  };
+
+  const handleRestored = async (vaultId: string) => {
+    await loadVaults();
+    handleSelectVault(vaultId);
+    setIsNewVault(false);
+  };
+
+  const openFile = async (source: FileSystemFileHandle | File, replace = false) => {
+    setError('');
+    try {
+      const opened = await openVaultFile(source, { replace });
+      if ('replaces' in opened) {
+        setPendingFile({ source, replaces: opened.replaces });
+        return;
+      }
+      await handleRestored(opened.vaultId);
+      toast.success('Vault file opened');
+    } catch (err) {
+      setError(
+        err instanceof VaultFileError || err instanceof UnsupportedFormatError
+          ? err.message
+          : 'The vault file could not be opened'
+      );
+    }
+  };
+
+  const handleOpenFile = async () => {
+    if (!supportsFileHandles()) {
+      fileInputRef.current?.click();
+      return;
+    }
+    const handle = await pickVaultFile();
+    if (handle) await openFile(handle);
+  };
+
+  // Link a new vault to its file. Without file handles the file is downloaded right away.
+  const createVaultFile = async (vaultId: string, handle: FileSystemFileHandle | null, name: string) => {
+    try {
+      await linkVaultFile(vaultId, handle, handle?.name ?? vaultFileName(name));
+      if (!handle) await downloadVaultFile(vaultId);
+    } catch (err) {
+      toast.error(err instanceof VaultFileError ? err.message : 'The vault file could not be created', {
+        description: 'The vault was created in this browser only.',
+      });
+    }
+  };
+
+  // Load a vault kept in a file from the file if it was changed elsewhere. If the file
+  // can't be used, the copy in this browser is unlocked. An older file is reported as a
+  // rollback by the unlock.
+  const refreshFromFile = async (vaultId: string) => {
+    try {
+      if ((await syncVaultFile(vaultId, { requestAccess: true })) === 'changed') {
+        await loadVaultFile(vaultId);
+        toast.info('Loaded the latest version of the vault file');
+      }
+    } catch (err) {
+      toast.warning(err instanceof VaultFileError ? err.message : 'The vault file could not be read', {
+        description: 'Unlocking the copy kept in this browser.',
+      });
+    }
+  };
+
+  const openDeleteVault = () => {
+    setDeletePassword('');
+    setDeleteError('');
+    setShowDeleteVault(true);
+  };
+
+  // Deleting a locked vault needs its master password, like unlocking it
+  const handleDeleteVault = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedVault) return;
+    setDeleteError('');
+    setIsDeleting(true);
+    try {
+      const deleted = await deleteVaultWithPassword(
+        selectedVault.id,
+        deletePassword,
+        needsSecretKey ? secretKey : undefined
+      );
+      if (!deleted) {
+        setDeleteError(needsSecretKey ? 'Invalid master password or secret key' : 'Invalid master password');
+        handleFailedAttempt();
+      } else {
+        await unlinkVaultFile(selectedVault.id);
+        setShowDeleteVault(false);
+        setError('');
+        toast.success(`Deleted ${selectedVault.name}`);
+        loadVaults();
+      }
+    } catch (err) {
+      setShowDeleteVault(false);
+      if (err instanceof VaultWipedError) handleWiped(err);
+      else if (err instanceof UnlockThrottledError) setRetryAt(err.retryAt);
+      else setError('The vault could not be deleted');
+    }
+    setDeletePassword('');
+    setIsDeleting(false);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -46,26 +395,81 @@ export function MasterPassword({ onUnlock }: MasterPasswordProps) {
           setIsLoading(false);
           return;
         }
-        await createVault(password);
+        const kdfError = validateKdfParams(kdf);
+        if (kdfError) {
+          setError(kdfError);
+          setIsLoading(false);
+          return;
+        }
+        if (vaultName.trim() && !normalizeVaultName(vaultName)) {
+          setError(`Vault name must be at most ${MAX_VAULT_NAME_LENGTH} characters`);
+          setIsLoading(false);
+          return;
+        }
+        const name = normalizeVaultName(vaultName) ?? DEFAULT_VAULT_NAME;
+        // Chosen before the vault is created, while the click still allows opening the picker
+        const fileHandle = keepInFile && supportsFileHandles() ? await pickNewVaultFile(vaultFileName(name)) : null;
+        if (keepInFile && supportsFileHandles() && !fileHandle) {
+          setIsLoading(false);
+          return;
+        }
+        const { session, kit } = await createVault(password, kdf, {
+          name: vaultName,
+          emergencyKit: useEmergencyKit,
+        });
+        if (keepInFile) await createVaultFile(session.vaultId, fileHandle, name);
         toast.success('Vault created successfully');
-        onUnlock([], password);
+        if (kit) {
+          // Hold the session until the user has saved the kit
+          setCreatedSession(session);
+          setCreatedKit(kit);
+        } else {
+          onUnlock([], session, normalizeVaultName(vaultName) ?? DEFAULT_VAULT_NAME);
+        }
       } else {
-        const credentials = await unlockVault(password);
-        if (credentials === null) {
-          setError('Invalid master password');
+        if (!selectedVaultId) {
+          setIsLoading(false);
+          return;
+        }
+        await refreshFromFile(selectedVaultId);
+        const unlocked = await unlockVault(selectedVaultId, password, needsSecretKey ? secretKey : undefined);
+        if (unlocked === null) {
+          setError(needsSecretKey ? 'Invalid master password or secret key' : 'Invalid master password');
+          handleFailedAttempt();
           setIsLoading(false);
           return;
         }
-        toast.success('Vault unlocked');
-        onUnlock(credentials, password);
+        handleUnlocked(unlocked);
       }
-    } catch {
-      setError('An error occurred. Please try again.');
+    } catch (err) {
+      if (err instanceof VaultWipedError) {
+        handleWiped(err);
+        setIsLoading(false);
+        return;
+      }
+      if (err instanceof UnlockThrottledError) {
+        setRetryAt(err.retryAt);
+        setIsLoading(false);
+        return;
+      }
+      setError(
+        err instanceof UnsupportedFormatError || err instanceof VaultIntegrityError
+          ? err.message
+          : 'An error occurred. Please try again.'
+      );
     }
     
     setIsLoading(false);
   };
 
+  if (isCheckingVault) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <div className="w-8 h-8 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <div className="absolute inset-0 overflow-hidden">
@@ -88,6 +492,53 @@ export function MasterPassword({ onUnlock }: MasterPasswordProps) {
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-4">
+            {isNewVault ? (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">
+                  Vault Name
+                </label>
+                <div className="relative">
+                  <Vault className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                  <Input
+                    value={vaultName}
+                    onChange={(e) => setVaultName(e.target.value)}
+                    placeholder={DEFAULT_VAULT_NAME}
+                    maxLength={MAX_VAULT_NAME_LENGTH}
+                    className="pl-11"
+                  />
+                </div>
+              </div>
+            ) : vaults.length > 0 && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">
+                  Vault
+                </label>
+                <div className="flex gap-2">
+                  <Select value={selectedVaultId ?? undefined} onValueChange={handleSelectVault}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {vaults.map((entry) => (
+                        <SelectItem key={entry.id} value={entry.id}>
+                          {entry.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={openDeleteVault}
+                    title="Delete Vault"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
             <div className="space-y-2">
               <label className="text-sm font-medium text-foreground">
                 Master Password
@@ -112,6 +563,26 @@ export function MasterPassword({ onUnlock }: MasterPasswordProps) {
               </div>
             </div>
 
+            {needsSecretKey && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">
+                  Secret Key
+                </label>
+                <div className="relative">
+                  <KeySquare className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                  <Input
+                    value={secretKey}
+                    onChange={(e) => setSecretKey(e.target.value)}
+                    placeholder="SV1-XXXXXX-XXXXX-XXXXX-XXXXX-XXXXX"
+                    className="pl-11 font-mono"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  This device doesn't know your Secret Key yet. Find it in your Emergency Kit.
+                </p>
+              </div>
+            )}
+
             {isNewVault && (
               <>
                 <div className="space-y-2">
@@ -149,6 +620,56 @@ export function MasterPassword({ onUnlock }: MasterPasswordProps) {
                     />
                   </div>
                 </div>
+
+                <div className="flex items-start justify-between gap-3 p-3 bg-secondary/30 rounded-lg">
+                  <div>
+                    <p className="text-sm font-medium text-foreground">Secret Key & Emergency Kit</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Adds a random Secret Key to your password and a Recovery Code for a forgotten password.
+                    </p>
+                  </div>
+                  <Switch checked={useEmergencyKit} onCheckedChange={setUseEmergencyKit} />
+                </div>
+
+                <div className="flex items-start justify-between gap-3 p-3 bg-secondary/30 rounded-lg">
+                  <div>
+                    <p className="text-sm font-medium text-foreground">Keep in a File</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {supportsFileHandles()
+                        ? 'Saves the encrypted vault to a file you choose, e.g. in a synced folder, after every change.'
+                        : 'Downloads the encrypted vault as a file you can open in any browser. Download it again after changes.'}
+                    </p>
+                  </div>
+                  <Switch checked={keepInFile} onCheckedChange={setKeepInFile} />
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Gauge className="w-4 h-4 flex-shrink-0" />
+                    {isCalibrating ? (
+                      <span>Calibrating encryption strength for this device...</span>
+                    ) : (
+                      <span>
+                        {describeKdf(kdf)}
+                        {benchmark && ` · unlocks in ~${(estimateKdfMs(kdf, benchmark) / 1000).toFixed(1)} s`}
+                      </span>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setShowAdvanced(!showAdvanced)}
+                    className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    <SlidersHorizontal className="w-4 h-4" />
+                    Advanced security settings
+                    <ChevronDown className={`w-4 h-4 transition-transform ${showAdvanced ? 'rotate-180' : ''}`} />
+                  </button>
+                  {showAdvanced && (
+                    <div className="p-4 bg-secondary/30 rounded-lg border border-border">
+                      <KdfSettings value={kdf} onChange={setKdf} benchmark={benchmark} />
+                    </div>
+                  )}
+                </div>
               </>
             )}
 
@@ -159,11 +680,25 @@ export function MasterPassword({ onUnlock }: MasterPasswordProps) {
               </div>
             )}
 
+            {waitMs > 0 && (
+              <div className="flex items-center gap-2 text-warning text-sm bg-warning/10 p-3 rounded-lg">
+                <Timer className="w-4 h-4 flex-shrink-0" />
+                Too many failed attempts. Try again in {formatWait(waitMs)}.
+              </div>
+            )}
+
+            {!isNewVault && attemptsBeforeWipe !== null && attemptsBeforeWipe <= 3 && (
+              <p className="text-xs text-destructive">
+                {attemptsBeforeWipe} failed attempt{attemptsBeforeWipe === 1 ? '' : 's'} left before this vault
+                is erased from this device.
+              </p>
+            )}
+
             <Button 
               type="submit" 
               className="w-full"
               size="lg"
-              disabled={isLoading || !password}
+              disabled={isLoading || !password || waitMs > 0 || (isNewVault && isCalibrating)}
             >
               {isLoading ? (
                 <div className="w-5 h-5 border-2 border-primary-foreground/30 border-t-primary-foreground rounded-full animate-spin" />
@@ -182,27 +717,213 @@ export function MasterPassword({ onUnlock }: MasterPasswordProps) {
                 <div className="text-sm">
                   <p className="font-medium text-warning">Important</p>
                   <p className="text-muted-foreground mt-1">
-                    Your master password cannot be recovered. If you forget it, all your data will be lost forever.
+                    {useEmergencyKit
+                      ? 'Your master password can only be reset with the Recovery Code from your Emergency Kit. Without both, all your data will be lost forever.'
+                      : 'Your master password cannot be recovered. If you forget it, all your data will be lost forever.'}
                   </p>
                 </div>
               </div>
             </div>
           )}
 
+          {!isNewVault && hasRecovery && (
+            <p className="text-center text-sm text-muted-foreground mt-6">
+              <button
+                type="button"
+                onClick={() => setRecoveryMode('code')}
+                className="text-primary hover:underline"
+              >
+                Forgot your master password?
+              </button>
+            </p>
+          )}
+
+          {!isNewVault && hasTrustees && (
+            <p className="text-center text-sm text-muted-foreground mt-6">
+              <button
+                type="button"
+                onClick={() => setRecoveryMode('shares')}
+                className="text-primary hover:underline"
+              >
+                Recover with trustee shares
+              </button>
+            </p>
+          )}
+
           {!isNewVault && (
             <p className="text-center text-sm text-muted-foreground mt-6">
               Need a new vault?{' '}
               <button
                 type="button"
-                onClick={() => setIsNewVault(true)}
+                onClick={() => {
+                  setIsNewVault(true);
+                  setError('');
+                }}
                 className="text-primary hover:underline"
               >
                 Create one
               </button>
             </p>
           )}
+
+          {isNewVault && vaults.length > 0 && (
+            <p className="text-center text-sm text-muted-foreground mt-6">
+              <button
+                type="button"
+                onClick={() => {
+                  setIsNewVault(false);
+                  setError('');
+                }}
+                className="text-primary hover:underline"
+              >
+                Unlock an existing vault
+              </button>
+            </p>
+          )}
+
+          {/* Open vaults are restored from their dashboard so their sessions are locked first */}
+          {!onCancel && (
+            <p className="text-center text-sm text-muted-foreground mt-6">
+              Have a backup?{' '}
+              <button type="button" onClick={() => setShowRestore(true)} className="text-primary hover:underline">
+                Restore it
+              </button>
+            </p>
+          )}
+
+          {!onCancel && (
+            <p className="text-center text-sm text-muted-foreground mt-2">
+              Keep your vault in a file?{' '}
+              <button type="button" onClick={handleOpenFile} className="text-primary hover:underline">
+                Open the vault file
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={`${BACKUP_FILE_EXTENSION},.json`}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) openFile(file);
+                }}
+              />
+            </p>
+          )}
+
+          {!onCancel && (
+            <p className="text-center text-sm text-muted-foreground mt-2">
+              Synced on another device?{' '}
+              <button type="button" onClick={() => setShowSyncDownload(true)} className="text-primary hover:underline">
+                Get it from a sync server
+              </button>
+            </p>
+          )}
+
+          {onCancel && (
+            <p className="text-center text-sm text-muted-foreground mt-6">
+              <button type="button" onClick={onCancel} className="text-primary hover:underline">
+                Back to open vaults
+              </button>
+            </p>
+          )}
         </div>
       </div>
+
+      <EmergencyKitDialog kit={createdKit} onDone={handleKitSaved} />
+      <RecoveryDialog
+        vaultId={selectedVaultId ?? ''}
+        open={recoveryMode !== null}
+        mode={recoveryMode ?? 'code'}
+        onClose={() => {
+          setRecoveryMode(null);
+          // A failed recovery counts as a failed attempt and may have erased the vault
+          handleFailedAttempt();
+          loadVaults();
+          refreshVaultState();
+        }}
+        onRecovered={(unlocked) => {
+          setRecoveryMode(null);
+          toast.success('Master password reset');
+          handleUnlocked(unlocked);
+        }}
+      />
+
+      <BackupRestoreDialog open={showRestore} onClose={() => setShowRestore(false)} onRestored={handleRestored} />
+      <SyncDownloadDialog
+        open={showSyncDownload}
+        onClose={() => setShowSyncDownload(false)}
+        onDownloaded={handleRestored}
+      />
+
+      <Dialog open={pendingFile !== null} onOpenChange={(open) => !open && setPendingFile(null)}>
+        <DialogContent className="sm:max-w-md bg-card border-border">
+          <DialogHeader>
+            <DialogTitle>Replace {pendingFile?.replaces.name}</DialogTitle>
+            <DialogDescription>
+              Opening this file replaces {pendingFile?.replaces.name} on this device. Changes made since the file
+              was saved will be lost.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setPendingFile(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (pendingFile) openFile(pendingFile.source, true);
+                setPendingFile(null);
+              }}
+            >
+              Replace {pendingFile?.replaces.name}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showDeleteVault} onOpenChange={setShowDeleteVault}>
+        <DialogContent className="sm:max-w-md bg-card border-border">
+          <DialogHeader>
+            <DialogTitle className="text-destructive">Delete {selectedVault?.name}</DialogTitle>
+            <DialogDescription>
+              This will permanently delete this vault and all its credentials from this device. This action
+              cannot be undone. Enter the vault's master password to confirm.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleDeleteVault} className="space-y-4">
+            <Input
+              type="password"
+              value={deletePassword}
+              onChange={(e) => setDeletePassword(e.target.value)}
+              placeholder="Master password"
+              autoFocus
+            />
+            {needsSecretKey && (
+              <Input
+                value={secretKey}
+                onChange={(e) => setSecretKey(e.target.value)}
+                placeholder="SV1-XXXXXX-XXXXX-XXXXX-XXXXX-XXXXX"
+                className="font-mono"
+              />
+            )}
+            {deleteError && (
+              <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {deleteError}
+              </div>
+            )}
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button type="button" variant="outline" onClick={() => setShowDeleteVault(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" disabled={isDeleting || !deletePassword || waitMs > 0}>
+                Delete Vault
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,291 @@
+import { useState, useEffect } from 'react';
+import { Lock, KeySquare, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { UnsupportedFormatError } from '@/lib/crypto';
+import {
+  readBackupInfo,
+  readBackupCredentials,
+  Credential,
+  CATEGORY_INFO,
+  BackupInfo,
+  BACKUP_FILE_EXTENSION,
+} from '@/lib/vault';
+import { planMerge, applyMerge, MergePlan, MergeSummary, ConflictResolution } from '@/lib/merge';
+
+interface MergeImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  credentials: Credential[];
+  onMerge: (credentials: Credential[]) => Promise<void>;
+}
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  mine: 'Keep mine',
+  theirs: 'Keep theirs',
+  both: 'Keep both',
+};
+
+// Rows shown side by side for a conflict; passwords are compared but never shown
+const CONFLICT_FIELDS: { key: keyof Credential; label: string; value: (credential: Credential) => string }[] = [
+  { key: 'name', label: 'Name', value: (c) => c.name },
+  { key: 'username', label: 'Username', value: (c) => c.username },
+  { key: 'password', label: 'Password', value: (c) => '•'.repeat(Math.min(c.password.length, 12)) },
+  { key: 'url', label: 'URL', value: (c) => c.url ?? '' },
+  { key: 'notes', label: 'Notes', value: (c) => c.notes ?? '' },
+  { key: 'category', label: 'Category', value: (c) => CATEGORY_INFO[c.category].label },
+  { key: 'updatedAt', label: 'Updated', value: (c) => new Date(c.updatedAt).toLocaleDateString() },
+];
+
+export function MergeImportDialog({ open, onClose, credentials, onMerge }: MergeImportDialogProps) {
+  const [backupData, setBackupData] = useState<string | null>(null);
+  const [info, setInfo] = useState<BackupInfo | null>(null);
+  const [password, setPassword] = useState('');
+  const [secretKey, setSecretKey] = useState('');
+  const [plan, setPlan] = useState<MergePlan | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [summary, setSummary] = useState<MergeSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setBackupData(null);
+    setInfo(null);
+    setPassword('');
+    setSecretKey('');
+    setPlan(null);
+    setResolutions({});
+    setSummary(null);
+    setError('');
+  }, [open]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setInfo(null);
+    setError('');
+    if (!file) return;
+
+    try {
+      const data = await file.text();
+      const backupInfo = await readBackupInfo(data);
+      if (!backupInfo) {
+        setError('This file is not a SecureVault export');
+        return;
+      }
+      setBackupData(data);
+      setInfo(backupInfo);
+    } catch (err) {
+      setError(err instanceof UnsupportedFormatError ? err.message : 'The file could not be read');
+    }
+  };
+
+  const handleDecrypt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!backupData || !info) return;
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const contents = await readBackupCredentials(backupData, password, info.needsSecretKey ? secretKey : undefined);
+      if (contents) {
+        setPlan(planMerge(credentials, contents.credentials));
+      } else {
+        setError(info.usesSecretKey ? 'Invalid master password or secret key' : 'Invalid master password');
+      }
+    } catch (err) {
+      setError(err instanceof UnsupportedFormatError ? err.message : 'An error occurred. Please try again.');
+    }
+    setIsLoading(false);
+  };
+
+  const handleMerge = async () => {
+    if (!plan) return;
+    setIsLoading(true);
+    const result = applyMerge(credentials, plan, resolutions);
+    try {
+      await onMerge(result.credentials);
+      setSummary(result.summary);
+    } catch {
+      setError('The merged vault could not be saved');
+    }
+    setIsLoading(false);
+  };
+
+  const setAllResolutions = (resolution: ConflictResolution) => {
+    if (!plan) return;
+    setResolutions(Object.fromEntries(plan.conflicts.map(({ theirs }) => [theirs.id, resolution])));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Merge Another Vault</DialogTitle>
+          <DialogDescription>
+            Add the credentials from a SecureVault export to this vault. Nothing here is removed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {summary ? (
+          <div className="space-y-4">
+            <div className="flex items-start gap-3 p-4 bg-success/10 rounded-lg text-sm">
+              <CheckCircle2 className="w-5 h-5 text-success flex-shrink-0" />
+              <div>
+                <p className="font-medium text-foreground">Merge complete</p>
+                <p className="text-muted-foreground mt-1">
+                  {summary.added} added · {summary.updated} updated · {summary.skipped} skipped
+                </p>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button onClick={onClose}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : plan ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {plan.added.length} new · {plan.unchanged} already here · {plan.conflicts.length} conflicting
+            </p>
+
+            {plan.conflicts.length > 0 && (
+              <>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium">Conflicts</p>
+                  <div className="flex gap-1">
+                    {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map((resolution) => (
+                      <Button key={resolution} variant="ghost" size="sm" onClick={() => setAllResolutions(resolution)}>
+                        All: {RESOLUTION_LABELS[resolution]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="max-h-96 overflow-y-auto space-y-3">
+                  {plan.conflicts.map(({ mine, theirs, matchedBy }) => {
+                    const resolution = resolutions[theirs.id] ?? 'mine';
+                    return (
+                      <div key={theirs.id} className="p-3 bg-secondary/30 rounded-lg space-y-3">
+                        <p className="text-xs text-muted-foreground">
+                          Matched by {matchedBy === 'id' ? 'credential id' : 'name, username and URL'}
+                        </p>
+                        <div className="grid grid-cols-[auto_1fr_1fr] gap-x-3 gap-y-1 text-sm">
+                          <span />
+                          <span className="text-xs font-medium text-muted-foreground">Mine</span>
+                          <span className="text-xs font-medium text-muted-foreground">Theirs</span>
+                          {CONFLICT_FIELDS.map((field) => {
+                            const differs = (mine[field.key] ?? '') !== (theirs[field.key] ?? '');
+                            return (
+                              <div key={field.key} className="contents">
+                                <span className="text-xs text-muted-foreground">{field.label}</span>
+                                <span className={`truncate ${differs ? 'text-warning' : ''}`}>{field.value(mine)}</span>
+                                <span className={`truncate ${differs ? 'text-warning' : ''}`}>{field.value(theirs)}</span>
+                              </div>
+                            );
+                          })}
+                        </div>
+                        <div className="flex justify-end gap-2">
+                          {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map((option) => (
+                            <Button
+                              key={option}
+                              size="sm"
+                              variant={resolution === option ? 'default' : 'outline'}
+                              onClick={() => setResolutions({ ...resolutions, [theirs.id]: option })}
+                            >
+                              {RESOLUTION_LABELS[option]}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={handleMerge} disabled={isLoading}>
+                {isLoading ? 'Merging...' : 'Merge'}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleDecrypt} className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Export File</label>
+              <Input type="file" accept={`${BACKUP_FILE_EXTENSION},.json`} onChange={handleFileChange} />
+            </div>
+
+            {info && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {info.name ?? 'Unnamed vault'}
+                  {info.exportedAt && ` · exported ${new Date(info.exportedAt).toLocaleString()}`}
+                </p>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Master Password of the Export</label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="pl-10"
+                    />
+                  </div>
+                </div>
+                {info.needsSecretKey && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Secret Key</label>
+                    <div className="relative">
+                      <KeySquare className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                      <Input
+                        value={secretKey}
+                        onChange={(e) => setSecretKey(e.target.value)}
+                        placeholder="SV1-XXXXXX-XXXXX-XXXXX-XXXXX-XXXXX"
+                        className="pl-10 font-mono"
+                      />
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading || !info || !password}>
+                {isLoading ? 'Decrypting...' : 'Continue'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
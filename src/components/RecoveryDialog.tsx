@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { UnsupportedFormatError } from '@/lib/crypto';
+import { parseTrusteeShare } from '@/lib/recovery';
+import {
+  recoverVault,
+  recoverVaultWithShares,
+  readTrusteeRecovery,
+  isSecretKeyRequired,
+  UnlockedVault,
+  TrusteeRecoveryInfo,
+  VaultIntegrityError,
+  VaultWipedError,
+} from '@/lib/vault';
+import { UnlockThrottledError } from '@/lib/throttle';
+import { unlinkVaultFile } from '@/lib/vaultFile';
+
+interface RecoveryDialogProps {
+  vaultId: string;
+  open: boolean;
+  onClose: () => void;
+  onRecovered: (unlocked: UnlockedVault) => void;
+  // Recover with the Emergency Kit recovery code or with trustee shares
+  mode?: 'code' | 'shares';
+}
+
+export function RecoveryDialog({ vaultId, open, onClose, onRecovered, mode = 'code' }: RecoveryDialogProps) {
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [shareInput, setShareInput] = useState('');
+  const [secretKey, setSecretKey] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [needsSecretKey, setNeedsSecretKey] = useState(false);
+  const [trustees, setTrustees] = useState<TrusteeRecoveryInfo | null>(null);
+  const shareLines = shareInput.split('\n').map((line) => line.trim()).filter(Boolean);
+  const validShares = shareLines.filter((line) => parseTrusteeShare(line) !== null);
+  const hasRecoveryInput = mode === 'shares' ? shareLines.length > 0 : !!recoveryCode;
+
+  useEffect(() => {
+    setRecoveryCode('');
+    setShareInput('');
+    setSecretKey('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setError('');
+    if (!open) return;
+    isSecretKeyRequired(vaultId).then(setNeedsSecretKey);
+    readTrusteeRecovery(vaultId).then(setTrustees);
+  }, [open, vaultId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    if (newPassword.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+    if (mode === 'shares') {
+      if (validShares.length !== shareLines.length) {
+        setError('One or more shares are malformed');
+        return;
+      }
+      if (trustees && validShares.length < trustees.threshold) {
+        setError(`At least ${trustees.threshold} shares are required`);
+        return;
+      }
+    }
+
+    setIsLoading(true);
+    try {
+      const unlocked = mode === 'shares'
+        ? await recoverVaultWithShares(vaultId, shareLines, newPassword, needsSecretKey ? secretKey : undefined)
+        : await recoverVault(vaultId, recoveryCode, newPassword, needsSecretKey ? secretKey : undefined);
+      if (!unlocked) {
+        const what = mode === 'shares' ? 'shares' : 'recovery code';
+        setError(needsSecretKey ? `Invalid ${what} or secret key` : `Invalid ${what}`);
+        setIsLoading(false);
+        return;
+      }
+      onRecovered(unlocked);
+    } catch (err) {
+      // A vault restored later under the same id must not be written to the old file
+      if (err instanceof VaultWipedError) unlinkVaultFile(vaultId).catch(() => {});
+      setError(
+        err instanceof UnsupportedFormatError ||
+        err instanceof VaultIntegrityError ||
+        err instanceof VaultWipedError ||
+        err instanceof UnlockThrottledError
+          ? err.message
+          : 'An error occurred. Please try again.'
+      );
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Reset Master Password</DialogTitle>
+          <DialogDescription>
+            {mode === 'shares'
+              ? 'Enter the trustee shares, one per line, and choose a new master password.'
+              : 'Enter the Recovery Code from your Emergency Kit and choose a new master password.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'shares' ? (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Trustee Shares</label>
+              <Textarea
+                value={shareInput}
+                onChange={(e) => setShareInput(e.target.value)}
+                placeholder="SVS1-XXXXXXXX-K-N-XXXX-XXXX-..."
+                className="font-mono text-xs min-h-[120px]"
+                autoFocus
+              />
+              {trustees && (
+                <p className="text-xs text-muted-foreground">
+                  {validShares.length} of {trustees.threshold} required shares entered
+                  {validShares.length !== shareLines.length && ` (${shareLines.length - validShares.length} malformed)`}
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Recovery Code</label>
+              <Input
+                value={recoveryCode}
+                onChange={(e) => setRecoveryCode(e.target.value)}
+                placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                className="font-mono"
+                autoFocus
+              />
+            </div>
+          )}
+
+          {needsSecretKey && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Secret Key</label>
+              <Input
+                value={secretKey}
+                onChange={(e) => setSecretKey(e.target.value)}
+                placeholder="SV1-XXXXXX-XXXXX-XXXXX-XXXXX-XXXXX"
+                className="font-mono"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">New Master Password</label>
+            <Input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Confirm New Password</label>
+            <Input type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} />
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading || !hasRecoveryInput || !newPassword}>
+              {isLoading ? 'Resetting...' : 'Reset and Unlock'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,429 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Server, User, KeyRound, AlertTriangle, CloudUpload, RotateCcw, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Credential, RemoteBackupSettings, BackupRetention, writeRemoteBackupSettings } from '@/lib/vault';
+import {
+  RemoteBackup,
+  RemoteBackupError,
+  BackupTargetType,
+  BACKUP_TARGETS,
+  BACKUP_INTERVALS,
+  DEFAULT_RETENTION,
+  createTargetCredential,
+  validateTargetUrl,
+  enableRemoteBackups,
+  disableRemoteBackups,
+  listRemoteBackups,
+  downloadRemoteBackup,
+} from '@/lib/remoteBackup';
+import { toast } from 'sonner';
+
+const RETENTION_FIELDS: { key: keyof BackupRetention; label: string }[] = [
+  { key: 'keepLast', label: 'Latest' },
+  { key: 'keepDaily', label: 'Daily' },
+  { key: 'keepWeekly', label: 'Weekly' },
+  { key: 'keepMonthly', label: 'Monthly' },
+];
+
+interface RemoteBackupDialogProps {
+  open: boolean;
+  onClose: () => void;
+  vaultId: string;
+  credentials: Credential[];
+  // Null while remote backups are off
+  settings: RemoteBackupSettings | null;
+  // Why the last backup failed, if it did
+  backupError: string;
+  isBackingUp: boolean;
+  onBackUpNow: () => Promise<void>;
+  // Save the vault item holding the target's sign-in
+  onSaveTarget: (target: Credential) => Promise<void>;
+  // Called after the settings were changed
+  onChanged: () => Promise<void>;
+  // Called with a downloaded backup to restore
+  onRestore: (data: string, source: string) => void;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// How often and how long backups are kept, shared by setting up and changing backups
+function ScheduleFields({
+  intervalHours,
+  retention,
+  onChange,
+}: {
+  intervalHours: number;
+  retention: BackupRetention;
+  onChange: (intervalHours: number, retention: BackupRetention) => void;
+}) {
+  return (
+    <>
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Back Up</label>
+        <Select value={String(intervalHours)} onValueChange={(v) => onChange(Number(v), retention)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BACKUP_INTERVALS.map((interval) => (
+              <SelectItem key={interval.hours} value={String(interval.hours)}>
+                {interval.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Backups are made while the vault is unlocked, and only when it changed.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Keep</label>
+        <div className="grid grid-cols-4 gap-2">
+          {RETENTION_FIELDS.map((field) => (
+            <div key={field.key} className="space-y-1">
+              <Input
+                type="number"
+                min={field.key === 'keepLast' ? 1 : 0}
+                max={999}
+                value={retention[field.key]}
+                onChange={(e) =>
+                  onChange(intervalHours, {
+                    ...retention,
+                    [field.key]: Math.max(field.key === 'keepLast' ? 1 : 0, Math.min(999, Number(e.target.value) || 0)),
+                  })
+                }
+              />
+              <p className="text-xs text-muted-foreground text-center">{field.label}</p>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The latest backups are kept, plus the newest of each of the last days, weeks and months. Older backups are
+          deleted from the target.
+        </p>
+      </div>
+    </>
+  );
+}
+
+export function RemoteBackupDialog({
+  open,
+  onClose,
+  vaultId,
+  credentials,
+  settings,
+  backupError,
+  isBackingUp,
+  onBackUpNow,
+  onSaveTarget,
+  onChanged,
+  onRestore,
+}: RemoteBackupDialogProps) {
+  const [type, setType] = useState<BackupTargetType>('webdav');
+  const [address, setAddress] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [region, setRegion] = useState('');
+  const [intervalHours, setIntervalHours] = useState(24);
+  const [retention, setRetention] = useState<BackupRetention>(DEFAULT_RETENTION);
+  const [backups, setBackups] = useState<RemoteBackup[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setAddress('');
+    setUsername('');
+    setPassword('');
+    setRegion('');
+    setBackups(null);
+    setError('');
+  }, [open]);
+
+  // Settings are reloaded after every backup check; only reset the fields when opened
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  useEffect(() => {
+    setIntervalHours(settingsRef.current?.intervalHours ?? 24);
+    setRetention(settingsRef.current?.retention ?? DEFAULT_RETENTION);
+  }, [open]);
+
+  const target = settings && credentials.find((credential) => credential.id === settings.credentialId);
+  const isS3 = type === 's3';
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const urlError = validateTargetUrl(address.trim());
+    if (urlError) {
+      setError(urlError);
+      return;
+    }
+    if (isS3 && new URL(address.trim()).pathname.split('/').filter(Boolean).length === 0) {
+      setError('The S3 address must include the bucket, e.g. https://s3.example.com/bucket');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const credential = createTargetCredential(type, { url: address.trim(), username: username.trim(), password });
+      await onSaveTarget(credential);
+      await enableRemoteBackups(vaultId, {
+        type,
+        credentialId: credential.id,
+        region: isS3 ? region.trim() || undefined : undefined,
+        intervalHours,
+        retention,
+      });
+      await onChanged();
+    } catch {
+      setError('Remote backups could not be set up');
+    }
+    setIsLoading(false);
+  };
+
+  const handleSaveSchedule = async () => {
+    if (!settings) return;
+    await writeRemoteBackupSettings(vaultId, { ...settings, intervalHours, retention });
+    await onChanged();
+    toast.success('Backup settings saved');
+  };
+
+  const handleDisable = async () => {
+    await disableRemoteBackups(vaultId);
+    await onChanged();
+    toast.success('Remote backups turned off');
+  };
+
+  const loadBackups = useCallback(async () => {
+    setError('');
+    setIsLoading(true);
+    try {
+      setBackups(await listRemoteBackups(vaultId, credentials));
+    } catch (err) {
+      setError(err instanceof RemoteBackupError ? err.message : 'The backups could not be listed');
+    }
+    setIsLoading(false);
+  }, [vaultId, credentials]);
+
+  const handleRestore = async (backup: RemoteBackup) => {
+    setError('');
+    setIsLoading(true);
+    try {
+      const data = await downloadRemoteBackup(vaultId, credentials, backup.name);
+      onRestore(data, `${target?.name ?? 'Remote backup'} · ${new Date(backup.createdAt).toLocaleString()}`);
+    } catch (err) {
+      setError(err instanceof RemoteBackupError ? err.message : 'The backup could not be downloaded');
+    }
+    setIsLoading(false);
+  };
+
+  const scheduleChanged =
+    settings !== null &&
+    (settings.intervalHours !== intervalHours ||
+      RETENTION_FIELDS.some((field) => settings.retention[field.key] !== retention[field.key]));
+
+  const errorBox = (message: string) => (
+    <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+      <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+      {message}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg bg-card border-border max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Remote Backups</DialogTitle>
+          <DialogDescription>
+            Back up this vault to a WebDAV share or an S3-compatible bucket on a schedule. Backups are encrypted
+            before they leave this device and restore with the vault's master password.
+          </DialogDescription>
+        </DialogHeader>
+
+        {settings ? (
+          <Tabs defaultValue="schedule" onValueChange={(tab) => tab === 'restore' && backups === null && loadBackups()}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="schedule">Schedule</TabsTrigger>
+              <TabsTrigger value="restore">Restore</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="schedule" className="space-y-4">
+              <div className="p-3 bg-secondary/30 rounded-lg text-sm space-y-1">
+                <p className="truncate">
+                  <span className="text-muted-foreground">Target: </span>
+                  {target ? target.url : 'Missing'}
+                </p>
+                <p className="text-muted-foreground">
+                  {settings.lastBackupAt
+                    ? `Last backed up ${new Date(settings.lastBackupAt).toLocaleString()}`
+                    : 'Not backed up yet'}
+                </p>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {target
+                  ? `The address and sign-in are kept in this vault as "${target.name}". Edit that item to change them.`
+                  : 'The vault item with the sign-in for the target was deleted. Turn backups off and on again to set up the target.'}
+              </p>
+
+              {backupError && errorBox(backupError)}
+
+              <ScheduleFields
+                intervalHours={intervalHours}
+                retention={retention}
+                onChange={(hours, rules) => {
+                  setIntervalHours(hours);
+                  setRetention(rules);
+                }}
+              />
+
+              <DialogFooter className="gap-2 sm:gap-0">
+                <Button variant="outline" onClick={handleDisable}>
+                  Turn Off Backups
+                </Button>
+                {scheduleChanged ? (
+                  <Button onClick={handleSaveSchedule}>Save Settings</Button>
+                ) : (
+                  <Button onClick={onBackUpNow} disabled={isBackingUp || !target}>
+                    <CloudUpload className="w-4 h-4 mr-2" />
+                    {isBackingUp ? 'Backing Up...' : 'Back Up Now'}
+                  </Button>
+                )}
+              </DialogFooter>
+            </TabsContent>
+
+            <TabsContent value="restore" className="space-y-4">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  {backups ? `${backups.length} backup${backups.length === 1 ? '' : 's'} of this vault` : 'Backups of this vault'}
+                </p>
+                <Button variant="ghost" size="icon" onClick={loadBackups} disabled={isLoading} title="Refresh">
+                  <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                </Button>
+              </div>
+
+              {error && errorBox(error)}
+
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {backups?.map((backup) => (
+                  <div key={backup.name} className="flex items-center gap-3 p-3 bg-secondary/30 rounded-lg">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium">{new Date(backup.createdAt).toLocaleString()}</p>
+                      <p className="text-xs text-muted-foreground">{formatSize(backup.size)}</p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => handleRestore(backup)} disabled={isLoading}>
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Restore
+                    </Button>
+                  </div>
+                ))}
+                {backups?.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-4">No backups yet</p>
+                )}
+              </div>
+            </TabsContent>
+          </Tabs>
+        ) : (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Target</label>
+              <Select value={type} onValueChange={(v) => setType(v as BackupTargetType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BACKUP_TARGETS).map(([key, info]) => (
+                    <SelectItem key={key} value={key}>
+                      {info.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">{isS3 ? 'Bucket Address' : 'Folder Address'}</label>
+              <div className="relative">
+                <Server className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  value={address}
+                  onChange={(e) => setAddress(e.target.value)}
+                  placeholder={BACKUP_TARGETS[type].placeholder}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">{isS3 ? 'Access Key' : 'User Name'}</label>
+                <div className="relative">
+                  <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input value={username} onChange={(e) => setUsername(e.target.value)} className="pl-10" />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">{isS3 ? 'Secret Key' : 'Password'}</label>
+                <div className="relative">
+                  <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+              </div>
+            </div>
+            {isS3 && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Region (optional)</label>
+                <Input value={region} onChange={(e) => setRegion(e.target.value)} placeholder="us-east-1" />
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              The address and sign-in are saved in this vault as a new item. The server must allow requests from this
+              app (CORS).
+            </p>
+
+            <ScheduleFields
+              intervalHours={intervalHours}
+              retention={retention}
+              onChange={(hours, rules) => {
+                setIntervalHours(hours);
+                setRetention(rules);
+              }}
+            />
+
+            {error && errorBox(error)}
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!address.trim() || !username.trim() || !password || isLoading}>
+                Turn On Backups
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, Wrench, Trash2, ChevronDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { QuarantinedItem } from '@/lib/vault';
+
+interface RepairDialogProps {
+  open: boolean;
+  items: QuarantinedItem[];
+  onClose: () => void;
+  onRepair: (item: QuarantinedItem) => void;
+  onDiscard: (item: QuarantinedItem) => void;
+}
+
+// Name to show for an item that may not have a usable one
+function itemLabel(item: QuarantinedItem, index: number): string {
+  const data = item.data as { name?: unknown } | null;
+  return data && typeof data === 'object' && typeof data.name === 'string' && data.name
+    ? data.name
+    : `Item ${index + 1}`;
+}
+
+export function RepairDialog({ open, items, onClose, onRepair, onDiscard }: RepairDialogProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [confirmDiscardId, setConfirmDiscardId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setExpandedId(null);
+    setConfirmDiscardId(null);
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Needs Repair</DialogTitle>
+          <DialogDescription>
+            These items in your vault are damaged or incomplete and can't be shown. They are kept as they
+            are until you repair or discard them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {items.length > 0 ? (
+          <div className="max-h-96 overflow-y-auto space-y-2">
+            {items.map((item, index) => (
+              <div key={item.id} className="p-3 bg-secondary/30 rounded-lg space-y-2">
+                <div className="flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0 mt-0.5" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{itemLabel(item, index)}</p>
+                    <ul className="text-xs text-muted-foreground mt-1 space-y-0.5">
+                      {item.issues.map((issue) => (
+                        <li key={issue}>{issue}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                  className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  Stored data
+                  <ChevronDown className={`w-3 h-3 transition-transform ${expandedId === item.id ? 'rotate-180' : ''}`} />
+                </button>
+                {expandedId === item.id && (
+                  <pre className="text-xs font-mono p-2 bg-background rounded max-h-40 overflow-auto whitespace-pre-wrap break-all">
+                    {JSON.stringify(item.data, null, 2) ?? String(item.data)}
+                  </pre>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  {confirmDiscardId === item.id ? (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => setConfirmDiscardId(null)}>
+                        Keep
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => onDiscard(item)}>
+                        Discard Permanently
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => setConfirmDiscardId(item.id)}>
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Discard
+                      </Button>
+                      <Button size="sm" onClick={() => onRepair(item)}>
+                        <Wrench className="w-4 h-4 mr-2" />
+                        Repair
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">All items have been resolved.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
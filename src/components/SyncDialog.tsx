@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react';
+import { Server, KeyRound, AlertTriangle, Copy, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { SyncState } from '@/lib/vault';
+import { enableSync, disableSync } from '@/lib/sync';
+import { toast } from 'sonner';
+
+interface SyncDialogProps {
+  open: boolean;
+  onClose: () => void;
+  vaultId: string;
+  // Null while sync is off
+  syncState: SyncState | null;
+  // Why the last sync failed, if it did
+  syncError: string;
+  isSyncing: boolean;
+  onSyncNow: () => Promise<void>;
+  // Called after sync was turned on or off
+  onChanged: () => Promise<void>;
+}
+
+export function SyncDialog({
+  open,
+  onClose,
+  vaultId,
+  syncState,
+  syncError,
+  isSyncing,
+  onSyncNow,
+  onChanged,
+}: SyncDialogProps) {
+  const [serverUrl, setServerUrl] = useState('');
+  const [token, setToken] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setServerUrl('');
+    setToken('');
+    setError('');
+  }, [open]);
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    let url: URL;
+    try {
+      url = new URL(serverUrl.trim());
+    } catch {
+      setError('Enter the full address of the sync server, e.g. https://sync.example.com');
+      return;
+    }
+    if (url.protocol !== 'https:' && url.hostname !== 'localhost' && url.hostname !== '127.0.0.1') {
+      setError('The sync server must use HTTPS');
+      return;
+    }
+
+    await enableSync(vaultId, url.toString(), token.trim() || undefined);
+    await onChanged();
+    await onSyncNow();
+  };
+
+  const handleDisable = async () => {
+    await disableSync(vaultId);
+    await onChanged();
+    toast.success('Sync turned off');
+  };
+
+  const copySyncId = async () => {
+    await navigator.clipboard.writeText(vaultId);
+    toast.success('Sync ID copied');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Sync</DialogTitle>
+          <DialogDescription>
+            Keep this vault in sync across devices through a sync server. The vault is encrypted before it leaves
+            this device; the server never sees your master password or credentials.
+          </DialogDescription>
+        </DialogHeader>
+
+        {syncState ? (
+          <div className="space-y-4">
+            <div className="p-3 bg-secondary/30 rounded-lg text-sm space-y-1">
+              <p className="truncate">
+                <span className="text-muted-foreground">Server: </span>
+                {syncState.serverUrl}
+              </p>
+              <p className="text-muted-foreground">
+                {syncState.lastSyncedAt
+                  ? `Last synced ${new Date(syncState.lastSyncedAt).toLocaleString()}`
+                  : 'Not synced yet'}
+              </p>
+            </div>
+
+            {syncError && (
+              <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {syncError}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Sync ID</label>
+              <div className="flex gap-2">
+                <Input value={vaultId} readOnly className="font-mono text-xs" />
+                <Button type="button" variant="outline" size="icon" onClick={copySyncId} title="Copy Sync ID">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                To add another device, choose "Get it from a sync server" on its lock screen and enter this ID, the
+                server address and the access token. It is unlocked with this vault's master password.
+              </p>
+            </div>
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button variant="outline" onClick={handleDisable}>
+                Turn Off Sync
+              </Button>
+              <Button onClick={onSyncNow} disabled={isSyncing}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+                {isSyncing ? 'Syncing...' : 'Sync Now'}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Server Address</label>
+              <div className="relative">
+                <Server className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  value={serverUrl}
+                  onChange={(e) => setServerUrl(e.target.value)}
+                  placeholder="https://sync.example.com"
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Access Token (optional)</label>
+              <div className="relative">
+                <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  type="password"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+
+            {error && (
+              <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!serverUrl.trim() || isSyncing}>
+                Turn On Sync
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
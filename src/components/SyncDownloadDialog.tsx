@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react';
+import { Server, KeyRound, Hash, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { downloadSyncedVault, SyncError } from '@/lib/sync';
+
+interface SyncDownloadDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // Called with the id of the downloaded vault
+  onDownloaded: (vaultId: string) => void;
+}
+
+export function SyncDownloadDialog({ open, onClose, onDownloaded }: SyncDownloadDialogProps) {
+  const [serverUrl, setServerUrl] = useState('');
+  const [token, setToken] = useState('');
+  const [syncId, setSyncId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setServerUrl('');
+    setToken('');
+    setSyncId('');
+    setError('');
+  }, [open]);
+
+  const handleDownload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      const vaultId = await downloadSyncedVault(syncId.trim(), serverUrl.trim(), token.trim() || undefined);
+      if (vaultId) {
+        onDownloaded(vaultId);
+        onClose();
+      } else {
+        setError('This vault is already on this device');
+      }
+    } catch (err) {
+      setError(err instanceof SyncError ? err.message : 'The vault could not be downloaded');
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Get a Vault from a Sync Server</DialogTitle>
+          <DialogDescription>
+            Download a vault another device syncs. You'll unlock it with its master password, and it stays in sync
+            from then on.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleDownload} className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Server Address</label>
+            <div className="relative">
+              <Server className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                placeholder="https://sync.example.com"
+                className="pl-10"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Access Token (optional)</label>
+            <div className="relative">
+              <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input type="password" value={token} onChange={(e) => setToken(e.target.value)} className="pl-10" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Sync ID</label>
+            <div className="relative">
+              <Hash className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={syncId}
+                onChange={(e) => setSyncId(e.target.value)}
+                placeholder="Shown in the Sync settings of the vault"
+                className="pl-10 font-mono"
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading || !serverUrl.trim() || !syncId.trim()}>
+              {isLoading ? 'Downloading...' : 'Download'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
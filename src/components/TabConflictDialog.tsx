@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Credential } from '@/lib/vault';
+import { MergePlan, ConflictResolution } from '@/lib/merge';
+
+interface TabConflictDialogProps {
+  // Conflicts to resolve; the dialog is open while set
+  plan: MergePlan | null;
+  // Called with a resolution for every conflict, keyed by credential id
+  onResolve: (resolutions: Record<string, ConflictResolution>) => void;
+}
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  mine: "Keep this tab's",
+  theirs: "Keep the other tab's",
+  both: 'Keep both',
+};
+
+const FIELD_LABELS: Partial<Record<keyof Credential, string>> = {
+  name: 'name',
+  username: 'username',
+  password: 'password',
+  url: 'URL',
+  notes: 'notes',
+  category: 'category',
+  favorite: 'favorite',
+};
+
+// Fields that differ between the two versions, e.g. "password and notes"
+function describeDifferences(mine: Credential, theirs: Credential): string {
+  const fields = (Object.keys(FIELD_LABELS) as (keyof Credential)[])
+    .filter((key) => (mine[key] ?? '') !== (theirs[key] ?? ''))
+    .map((key) => FIELD_LABELS[key]);
+  return fields.length > 1 ? `${fields.slice(0, -1).join(', ')} and ${fields[fields.length - 1]}` : fields[0] ?? '';
+}
+
+export function TabConflictDialog({ plan, onResolve }: TabConflictDialogProps) {
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+
+  useEffect(() => {
+    setResolutions({});
+  }, [plan]);
+
+  // Conflicts without a choice keep this tab's version
+  const resolve = () => {
+    if (!plan) return;
+    onResolve(
+      Object.fromEntries(plan.conflicts.map(({ theirs }) => [theirs.id, resolutions[theirs.id] ?? 'mine']))
+    );
+  };
+
+  return (
+    <Dialog open={plan !== null} onOpenChange={resolve}>
+      <DialogContent className="sm:max-w-lg bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Changed in Another Tab</DialogTitle>
+          <DialogDescription>
+            This vault is open in another tab that changed the same credentials. Choose which version to keep; all
+            other changes from both tabs are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto space-y-3">
+          {plan?.conflicts.map(({ mine, theirs }) => {
+            const resolution = resolutions[theirs.id] ?? 'mine';
+            return (
+              <div key={theirs.id} className="p-3 bg-secondary/30 rounded-lg space-y-3">
+                <div>
+                  <p className="font-medium truncate">{mine.name}</p>
+                  <p className="text-xs text-muted-foreground">Different {describeDifferences(mine, theirs)}</p>
+                </div>
+                <div className="flex flex-wrap justify-end gap-2">
+                  {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map((option) => (
+                    <Button
+                      key={option}
+                      size="sm"
+                      variant={resolution === option ? 'default' : 'outline'}
+                      onClick={() => setResolutions({ ...resolutions, [theirs.id]: option })}
+                    >
+                      {RESOLUTION_LABELS[option]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={resolve}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
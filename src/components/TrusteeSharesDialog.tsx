@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { Lock, Download, Printer, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { UnsupportedFormatError } from '@/lib/crypto';
+import { MAX_SHARES } from '@/lib/shamir';
+import { TrusteeShareSet, downloadTrusteeShare, printTrusteeShares } from '@/lib/recovery';
+import {
+  setupTrusteeRecovery,
+  removeTrusteeRecovery,
+  readTrusteeRecovery,
+  TrusteeRecoveryInfo,
+} from '@/lib/vault';
+import { toast } from 'sonner';
+
+interface TrusteeSharesDialogProps {
+  vaultId: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+export function TrusteeSharesDialog({ vaultId, open, onClose }: TrusteeSharesDialogProps) {
+  const [masterPassword, setMasterPassword] = useState('');
+  const [shareCount, setShareCount] = useState(5);
+  const [threshold, setThreshold] = useState(3);
+  const [shareSet, setShareSet] = useState<TrusteeShareSet | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [existing, setExisting] = useState<TrusteeRecoveryInfo | null>(null);
+
+  useEffect(() => {
+    setMasterPassword('');
+    setShareCount(5);
+    setThreshold(3);
+    setShareSet(null);
+    setError('');
+    if (open) readTrusteeRecovery(vaultId).then(setExisting);
+  }, [open, vaultId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!Number.isInteger(threshold) || threshold < 2) {
+      setError('At least 2 trustees must be required');
+      return;
+    }
+    if (!Number.isInteger(shareCount) || shareCount < threshold || shareCount > MAX_SHARES) {
+      setError(`Number of trustees must be between ${threshold} and ${MAX_SHARES}`);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const created = await setupTrusteeRecovery(vaultId, masterPassword, shareCount, threshold);
+      if (!created) {
+        setError('Master password is incorrect');
+        setIsLoading(false);
+        return;
+      }
+      setShareSet(created);
+    } catch (err) {
+      setError(err instanceof UnsupportedFormatError ? err.message : 'An error occurred. Please try again.');
+    }
+    setIsLoading(false);
+  };
+
+  const handleRemove = async () => {
+    await removeTrusteeRecovery(vaultId);
+    toast.success('Trustee recovery removed');
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Trustee Recovery</DialogTitle>
+          <DialogDescription>
+            Split a recovery key among trustees. Any {threshold} of them together can reset the master
+            password; fewer learn nothing about it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {shareSet ? (
+          <div className="space-y-3">
+            <div className="max-h-72 overflow-y-auto space-y-2">
+              {shareSet.shares.map((share, index) => (
+                <div key={share} className="flex items-center gap-2 p-3 bg-secondary/30 rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-muted-foreground">Share {index + 1}</p>
+                    <p className="font-mono text-xs mt-1 break-all select-all">{share}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => downloadTrusteeShare(shareSet, index)}
+                    title="Download Share"
+                  >
+                    <Download className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <Button variant="outline" className="w-full" onClick={() => printTrusteeShares(shareSet)}>
+              <Printer className="w-4 h-4 mr-2" />
+              Print All Shares / PDF
+            </Button>
+
+            <div className="flex gap-3 p-3 bg-warning/10 border border-warning/20 rounded-lg text-sm">
+              <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0 mt-0.5" />
+              <p className="text-muted-foreground">
+                The shares are shown only once and are not stored. Give each trustee exactly one share.
+              </p>
+            </div>
+
+            <DialogFooter>
+              <Button onClick={onClose}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {existing && (
+              <div className="flex gap-3 p-3 bg-secondary/30 rounded-lg text-sm">
+                <p className="flex-1 text-muted-foreground">
+                  Set up on {new Date(existing.createdAt).toLocaleDateString()} with {existing.threshold} of{' '}
+                  {existing.shareCount} trustees. Creating new shares invalidates the old ones.
+                </p>
+                <Button type="button" variant="outline" size="sm" onClick={handleRemove}>
+                  Remove
+                </Button>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Trustees</label>
+                <Input
+                  type="number"
+                  min={2}
+                  max={MAX_SHARES}
+                  value={shareCount}
+                  onChange={(e) => setShareCount(Number(e.target.value))}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Required to recover</label>
+                <Input
+                  type="number"
+                  min={2}
+                  max={shareCount}
+                  value={threshold}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Master Password</label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  type="password"
+                  value={masterPassword}
+                  onChange={(e) => setMasterPassword(e.target.value)}
+                  className="pl-10"
+                  autoFocus
+                />
+              </div>
+            </div>
+
+            {error && (
+              <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading || !masterPassword}>
+                {isLoading ? 'Creating...' : existing ? 'Create New Shares' : 'Create Shares'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
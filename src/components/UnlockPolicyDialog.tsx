@@ -0,0 +1,106 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { readUnlockPolicy, writeUnlockPolicy, MIN_WIPE_AFTER, MAX_WIPE_AFTER } from '@/lib/throttle';
+import { toast } from 'sonner';
+
+interface UnlockPolicyDialogProps {
+  vaultId: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+export function UnlockPolicyDialog({ vaultId, open, onClose }: UnlockPolicyDialogProps) {
+  const [wipeEnabled, setWipeEnabled] = useState(false);
+  const [wipeAfter, setWipeAfter] = useState(10);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    const policy = readUnlockPolicy(vaultId);
+    setWipeEnabled(policy.wipeAfter !== null);
+    setWipeAfter(policy.wipeAfter ?? 10);
+    setError('');
+  }, [open, vaultId]);
+
+  const handleSave = () => {
+    if (wipeEnabled && (!Number.isInteger(wipeAfter) || wipeAfter < MIN_WIPE_AFTER || wipeAfter > MAX_WIPE_AFTER)) {
+      setError(`Choose between ${MIN_WIPE_AFTER} and ${MAX_WIPE_AFTER} attempts`);
+      return;
+    }
+    writeUnlockPolicy(vaultId, { wipeAfter: wipeEnabled ? wipeAfter : null });
+    toast.success('Unlock settings saved');
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Unlock Protection</DialogTitle>
+          <DialogDescription>
+            After a few failed attempts, each further attempt has to wait twice as long as the last, even
+            across reloads.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-start justify-between gap-3 p-3 bg-secondary/30 rounded-lg">
+            <div>
+              <p className="text-sm font-medium text-foreground">Erase after failed attempts</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Delete the vault from this device after too many consecutive failed unlock attempts.
+              </p>
+            </div>
+            <Switch checked={wipeEnabled} onCheckedChange={setWipeEnabled} />
+          </div>
+
+          {wipeEnabled && (
+            <>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Consecutive failed attempts</label>
+                <Input
+                  type="number"
+                  min={MIN_WIPE_AFTER}
+                  max={MAX_WIPE_AFTER}
+                  value={wipeAfter}
+                  onChange={(e) => setWipeAfter(Number(e.target.value))}
+                />
+              </div>
+              <div className="flex gap-3 p-3 bg-warning/10 border border-warning/20 rounded-lg text-sm">
+                <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0 mt-0.5" />
+                <p className="text-muted-foreground">
+                  Erased data cannot be recovered. Keep an exported backup if this device holds your only copy.
+                </p>
+              </div>
+            </>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
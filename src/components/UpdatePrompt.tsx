@@ -0,0 +1,31 @@
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AppUpdate } from '@/lib/pwa';
+
+interface UpdatePromptProps {
+  update: AppUpdate | null;
+  // Updating reloads the app, so it waits until every vault is locked
+  isUnlocked: boolean;
+}
+
+export function UpdatePrompt({ update, isUnlocked }: UpdatePromptProps) {
+  if (!update) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md">
+      <div className="flex items-center gap-3 p-4 bg-card border border-border rounded-xl shadow-lg">
+        <Download className="w-5 h-5 text-primary flex-shrink-0" />
+        <p className="flex-1 text-sm">
+          {isUnlocked
+            ? 'A new version of SecureVault is ready. Lock your vault to update.'
+            : 'A new version of SecureVault is ready.'}
+        </p>
+        {!isUnlocked && (
+          <Button size="sm" onClick={update.apply}>
+            Update
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
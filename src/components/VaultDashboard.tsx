@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import { 
   Search, 
   Plus, 
@@ -14,7 +14,23 @@ import {
   Film,
   Key,
   Wand2,
-  AlertTriangle
+  KeyRound,
+  Split,
+  ShieldAlert,
+  AlertTriangle,
+  ChevronDown,
+  Check,
+  Unlock,
+  Wrench,
+  Archive,
+  GitMerge,
+  FileInput,
+  ArrowDownUp,
+  FileKey,
+  FileOutput,
+  RefreshCw,
+  HardDrive,
+  CloudUpload
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -34,20 +50,78 @@ import {
   DialogDescription,
   DialogFooter,
 } from '@/components/ui/dialog';
-import { Credential, CredentialCategory, CATEGORY_INFO, saveVault, deleteVault } from '@/lib/vault';
+import {
+  Credential,
+  CredentialCategory,
+  CATEGORY_INFO,
+  VaultSession,
+  QuarantinedItem,
+  SyncState,
+  RemoteBackupSettings,
+  VaultIntegrityError,
+  VaultConflictError,
+  saveVault,
+  reloadVault,
+  deleteVault,
+  salvageCredential,
+  resolveQuarantinedItem,
+  readSyncState,
+  readRemoteBackupSettings,
+} from '@/lib/vault';
+import { syncVault, transportFor, SyncError } from '@/lib/sync';
+import { mergeThreeWay, applyMerge, MergePlan, ConflictResolution } from '@/lib/merge';
+import { subscribeTabMessages } from '@/lib/tabs';
+import { runRemoteBackup, RemoteBackupError } from '@/lib/remoteBackup';
+import {
+  VaultFileLink,
+  VaultFileStatus,
+  VaultFileError,
+  readVaultFileLink,
+  syncVaultFile,
+  loadVaultFile,
+  unlinkVaultFile,
+} from '@/lib/vaultFile';
 import { calculatePasswordStrength } from '@/lib/crypto';
 import { CredentialCard } from './CredentialCard';
 import { CredentialForm } from './CredentialForm';
 import { PasswordGenerator } from './PasswordGenerator';
+import { ChangePasswordDialog } from './ChangePasswordDialog';
+import { TrusteeSharesDialog } from './TrusteeSharesDialog';
+import { UnlockPolicyDialog } from './UnlockPolicyDialog';
+import { RepairDialog } from './RepairDialog';
+import { BackupRestoreDialog } from './BackupRestoreDialog';
+import { MergeImportDialog } from './MergeImportDialog';
+import { ImportDialog } from './ImportDialog';
+import { KdbxExportDialog } from './KdbxExportDialog';
+import { ExportDialog } from './ExportDialog';
+import { SyncDialog } from './SyncDialog';
+import { TabConflictDialog } from './TabConflictDialog';
+import { VaultFileDialog } from './VaultFileDialog';
+import { RemoteBackupDialog } from './RemoteBackupDialog';
 import { toast } from 'sonner';
 
 interface VaultDashboardProps {
   credentials: Credential[];
-  masterPassword: string;
+  session: VaultSession;
+  vaultName: string;
+  // Every unlocked vault, including this one
+  openVaults: { id: string; name: string }[];
   onLock: () => void;
   onUpdate: (credentials: Credential[]) => void;
+  onSwitchVault: (vaultId: string) => void;
+  onUnlockAnother: () => void;
+  onTransfer: (ids: string[], targetVaultId: string, move: boolean) => Promise<void>;
 }
 
+// Changes are synced once editing has paused this long
+const AUTO_SYNC_DELAY_MS = 2000;
+// Changes are saved to the vault file this long after they were made
+const FILE_SAVE_DELAY_MS = 500;
+// How often the vault file is checked for changes made elsewhere
+const FILE_CHECK_INTERVAL_MS = 10000;
+// How often an open vault checks whether a remote backup is due
+const BACKUP_CHECK_INTERVAL_MS = 60000;
+
 const CATEGORY_ICONS: Record<CredentialCategory | 'all' | 'favorites', React.ElementType> = {
   all: Key,
   favorites: Star,
@@ -59,7 +133,17 @@ const CATEGORY_ICONS: Record<CredentialCategory | 'all' | 'favorites', React.Ele
   other: Key,
 };
 
-export function VaultDashboard({ credentials, masterPassword, onLock, onUpdate }: VaultDashboardProps) {
+export function VaultDashboard({
+  credentials,
+  session,
+  vaultName,
+  openVaults,
+  onLock,
+  onUpdate,
+  onSwitchVault,
+  onUnlockAnother,
+  onTransfer,
+}: VaultDashboardProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<CredentialCategory | 'all' | 'favorites'>('all');
   const [showForm, setShowForm] = useState(false);
@@ -67,6 +151,290 @@ export function VaultDashboard({ credentials, masterPassword, onLock, onUpdate }
   const [showGenerator, setShowGenerator] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  const [showTrustees, setShowTrustees] = useState(false);
+  const [showUnlockPolicy, setShowUnlockPolicy] = useState(false);
+  const [showRepair, setShowRepair] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showMerge, setShowMerge] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showKdbxExport, setShowKdbxExport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [repairingItem, setRepairingItem] = useState<QuarantinedItem | null>(null);
+  const [showSync, setShowSync] = useState(false);
+  const [syncState, setSyncState] = useState<SyncState | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState('');
+  const [tabConflicts, setTabConflicts] = useState<{
+    plan: MergePlan;
+    resolve: (resolutions: Record<string, ConflictResolution>) => void;
+  } | null>(null);
+  // Queued saves and syncs read the latest credentials, not the ones from when they were queued
+  const credentialsRef = useRef(credentials);
+  credentialsRef.current = credentials;
+  const syncingRef = useRef(false);
+  const taskQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // Saves, syncs and reloads of this vault run one at a time, so a reload after another
+  // tab saved can't slip in between merging a change and saving it
+  const enqueue = useCallback(<T,>(task: () => Promise<T>): Promise<T> => {
+    const result = taskQueueRef.current.then(task);
+    taskQueueRef.current = result.catch(() => {});
+    return result;
+  }, []);
+
+  // Show credentials and make them visible to the next queued task right away
+  const applyCredentials = useCallback(
+    (updated: Credential[]) => {
+      credentialsRef.current = updated;
+      onUpdate(updated);
+    },
+    [onUpdate]
+  );
+
+  // Show changes saved in other tabs as they happen
+  useEffect(
+    () =>
+      subscribeTabMessages((message) => {
+        if (message.type !== 'saved' || message.vaultId !== session.vaultId) return;
+        enqueue(async () => {
+          if (message.revision <= session.revision || !session.keyring) return;
+          applyCredentials(await reloadVault(session));
+        }).catch(() => toast.error('Changes made in another tab could not be loaded'));
+      }),
+    [session, enqueue, applyCredentials]
+  );
+
+  const askTabConflicts = (plan: MergePlan) =>
+    new Promise<Record<string, ConflictResolution>>((resolve) => setTabConflicts({ plan, resolve }));
+
+  // Save credentials changed from base. Changes another tab saved in the meantime are
+  // merged in, and the user picks a version of credentials both tabs changed.
+  const commitChange = (base: Credential[], updated: Credential[]) =>
+    enqueue(async () => {
+      let theirs = credentialsRef.current;
+      for (;;) {
+        const { credentials: merged, plan } = mergeThreeWay(base, updated, theirs);
+        const result =
+          plan.conflicts.length > 0 ? applyMerge(merged, plan, await askTabConflicts(plan)).credentials : merged;
+        try {
+          await saveVault(result, session);
+          applyCredentials(result);
+          return;
+        } catch (err) {
+          if (!(err instanceof VaultConflictError)) throw err;
+          // Another tab saved while this change was merged; merge again with its version
+          theirs = await reloadVault(session);
+          applyCredentials(theirs);
+        }
+      }
+    });
+
+  // Resolve a quarantined item, reloading first if another tab saved in the meantime
+  const resolveItem = (itemId: string, replacement: Credential | null) =>
+    enqueue(async () => {
+      try {
+        applyCredentials(await resolveQuarantinedItem(itemId, replacement, credentialsRef.current, session));
+        return true;
+      } catch (err) {
+        if (!(err instanceof VaultConflictError)) throw err;
+        applyCredentials(await reloadVault(session));
+        toast.error('The vault was changed in another tab. Try again.');
+        return false;
+      }
+    });
+
+  const loadSyncState = useCallback(async () => {
+    setSyncState(await readSyncState(session.vaultId));
+  }, [session.vaultId]);
+
+  useEffect(() => {
+    loadSyncState();
+  }, [loadSyncState]);
+
+  // Pull, merge and push. Failures of automatic syncs are only shown in the Sync dialog.
+  const runSync = useCallback(
+    async (manual: boolean) => {
+      if (syncingRef.current) return;
+      const transport = await transportFor(session.vaultId);
+      if (!transport) return;
+
+      syncingRef.current = true;
+      setIsSyncing(true);
+      try {
+        const result = await enqueue(() => syncVault(session, credentialsRef.current, transport));
+        if (result.credentials !== credentialsRef.current) applyCredentials(result.credentials);
+        if (result.conflicts > 0) {
+          toast.warning(
+            `${result.conflicts} credential${result.conflicts === 1 ? ' was' : 's were'} changed on another device too. The older version was kept as a conflicted copy.`
+          );
+        } else if (manual) {
+          toast.success('Vault synced');
+        }
+        setSyncError('');
+      } catch (err) {
+        const message =
+          err instanceof SyncError || err instanceof VaultIntegrityError || err instanceof VaultConflictError
+            ? err.message
+            : 'The vault could not be synced';
+        setSyncError(message);
+        if (manual) toast.error(message);
+      }
+      await loadSyncState();
+      syncingRef.current = false;
+      setIsSyncing(false);
+    },
+    [session, enqueue, applyCredentials, loadSyncState]
+  );
+
+  const [showVaultFile, setShowVaultFile] = useState(false);
+  const [fileLink, setFileLink] = useState<VaultFileLink | null>(null);
+  const [fileStatus, setFileStatus] = useState<VaultFileStatus | null>(null);
+  const [fileError, setFileError] = useState('');
+  const [showFileConflict, setShowFileConflict] = useState(false);
+  const fileStatusRef = useRef<VaultFileStatus | null>(null);
+
+  const loadFileLink = useCallback(async () => {
+    setFileLink(await readVaultFileLink(session.vaultId));
+  }, [session.vaultId]);
+
+  useEffect(() => {
+    loadFileLink();
+  }, [loadFileLink]);
+
+  // Save changes to the vault file and load changes made to it elsewhere. A file changed
+  // on both sides is only loaded or overwritten when the user chooses to.
+  const runVaultFileTask = useCallback(
+    (action: 'check' | 'save' | 'overwrite' | 'load') =>
+      enqueue(async () => {
+        try {
+          let status =
+            action === 'load'
+              ? 'changed'
+              : await syncVaultFile(session.vaultId, {
+                  overwrite: action === 'overwrite',
+                  requestAccess: action !== 'check',
+                });
+          if (status === 'changed') {
+            const rollback = await loadVaultFile(session.vaultId);
+            applyCredentials(await reloadVault(session));
+            if (rollback) {
+              toast.error('Possible vault rollback detected', {
+                description:
+                  `The vault file is revision ${rollback.foundRevision}, but this device has already seen ` +
+                  `revision ${rollback.expectedRevision}. Recent changes may be missing or the file may have ` +
+                  'been replaced with an older copy.',
+                duration: Infinity,
+              });
+            } else {
+              toast.info('Loaded changes made to the vault file');
+            }
+            status = 'unchanged';
+          }
+          if (status === 'conflict' && fileStatusRef.current !== 'conflict') setShowFileConflict(true);
+          fileStatusRef.current = status;
+          setFileStatus(status);
+          setFileError('');
+        } catch (err) {
+          setFileError(err instanceof VaultFileError ? err.message : 'The vault file could not be used');
+          if (action !== 'check') throw err;
+        } finally {
+          await loadFileLink();
+        }
+      }),
+    [session, enqueue, applyCredentials, loadFileLink]
+  );
+
+  // Save to the vault file after every change, and look for changes made to it elsewhere
+  const hasVaultFile = fileLink !== null;
+  useEffect(() => {
+    if (!hasVaultFile) return;
+    const timer = setTimeout(() => runVaultFileTask('check'), FILE_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [hasVaultFile, credentials, runVaultFileTask]);
+
+  useEffect(() => {
+    if (!hasVaultFile) return;
+    const check = () => {
+      if (document.visibilityState === 'visible') runVaultFileTask('check');
+    };
+    const timer = setInterval(check, FILE_CHECK_INTERVAL_MS);
+    window.addEventListener('focus', check);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('focus', check);
+    };
+  }, [hasVaultFile, runVaultFileTask]);
+
+  const resolveFileConflict = async (action: 'overwrite' | 'load') => {
+    setShowFileConflict(false);
+    try {
+      await runVaultFileTask(action);
+      if (action === 'overwrite') toast.success('Saved this version to the vault file');
+    } catch {
+      toast.error('The vault file could not be used');
+    }
+  };
+
+  // Sync when the vault is opened and after every change
+  const syncEnabled = syncState !== null;
+  useEffect(() => {
+    if (!syncEnabled) return;
+    const timer = setTimeout(() => runSync(false), AUTO_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [syncEnabled, credentials, runSync]);
+
+  const [showRemoteBackup, setShowRemoteBackup] = useState(false);
+  const [remoteBackup, setRemoteBackup] = useState<RemoteBackupSettings | null>(null);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [backupError, setBackupError] = useState('');
+  const [remoteRestore, setRemoteRestore] = useState<{ data: string; source: string } | null>(null);
+  const backingUpRef = useRef(false);
+  const backupErrorRef = useRef('');
+
+  const loadRemoteBackup = useCallback(async () => {
+    setRemoteBackup(await readRemoteBackupSettings(session.vaultId));
+  }, [session.vaultId]);
+
+  useEffect(() => {
+    loadRemoteBackup();
+  }, [loadRemoteBackup]);
+
+  // Back up if a backup is due, or right away when manual. A failed scheduled backup is
+  // shown once and then retried quietly until it works.
+  const runBackup = useCallback(
+    async (manual: boolean) => {
+      if (backingUpRef.current) return;
+      backingUpRef.current = true;
+      setIsBackingUp(true);
+      try {
+        const result = await enqueue(() =>
+          runRemoteBackup(session.vaultId, credentialsRef.current, { force: manual })
+        );
+        if (manual && result?.uploaded) toast.success('Vault backed up');
+        backupErrorRef.current = '';
+        setBackupError('');
+      } catch (err) {
+        const message = err instanceof RemoteBackupError ? err.message : 'The vault could not be backed up';
+        if (manual || backupErrorRef.current !== message) toast.error(message);
+        backupErrorRef.current = message;
+        setBackupError(message);
+      }
+      await loadRemoteBackup();
+      backingUpRef.current = false;
+      setIsBackingUp(false);
+    },
+    [session.vaultId, enqueue, loadRemoteBackup]
+  );
+
+  // Check when the vault is opened or backups are turned on, then every minute
+  const backupEnabled = remoteBackup !== null;
+  useEffect(() => {
+    if (!backupEnabled) return;
+    runBackup(false);
+    const timer = setInterval(() => runBackup(false), BACKUP_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [backupEnabled, runBackup]);
 
   const filteredCredentials = useMemo(() => {
     return credentials.filter(cred => {
@@ -84,6 +452,8 @@ export function VaultDashboard({ credentials, masterPassword, onLock, onUpdate }
     });
   }, [credentials, searchQuery, selectedCategory]);
 
+  const transferTargets = openVaults.filter((vault) => vault.id !== session.vaultId);
+
   const stats = useMemo(() => {
     const total = credentials.length;
     const weak = credentials.filter(c => calculatePasswordStrength(c.password).label === 'weak').length;
@@ -93,39 +463,105 @@ export function VaultDashboard({ credentials, masterPassword, onLock, onUpdate }
   }, [credentials]);
 
   const handleSave = async (credential: Credential) => {
+    if (repairingItem) {
+      const itemId = repairingItem.id;
+      setRepairingItem(null);
+      try {
+        if (await resolveItem(itemId, credential)) toast.success('Item repaired');
+      } catch {
+        toast.error('The item could not be saved');
+      }
+      return;
+    }
+
     const exists = credentials.find(c => c.id === credential.id);
     let updated: Credential[];
+    // The edit is based on the credential as the form opened it, which another tab may
+    // have changed since
+    let base = credentials;
     
     if (exists) {
       updated = credentials.map(c => c.id === credential.id ? credential : c);
-      toast.success('Credential updated');
+      if (editingCredential?.id === credential.id) {
+        base = credentials.map(c => c.id === credential.id ? editingCredential : c);
+      }
     } else {
       updated = [...credentials, credential];
-      toast.success('Credential added');
     }
 
-    onUpdate(updated);
-    await saveVault(updated, masterPassword);
+    try {
+      await commitChange(base, updated);
+      toast.success(exists ? 'Credential updated' : 'Credential added');
+    } catch {
+      toast.error('The credential could not be saved');
+    }
   };
 
   const handleDelete = async (id: string) => {
     const updated = credentials.filter(c => c.id !== id);
-    onUpdate(updated);
-    await saveVault(updated, masterPassword);
     setShowDeleteConfirm(null);
-    toast.success('Credential deleted');
+    try {
+      await commitChange(credentials, updated);
+      toast.success('Credential deleted');
+    } catch {
+      toast.error('The credential could not be deleted');
+    }
   };
 
   const handleToggleFavorite = async (id: string) => {
     const updated = credentials.map(c => 
       c.id === id ? { ...c, favorite: !c.favorite } : c
     );
-    onUpdate(updated);
-    await saveVault(updated, masterPassword);
+    try {
+      await commitChange(credentials, updated);
+    } catch {
+      toast.error('The change could not be saved');
+    }
+  };
+
+  const handleRepair = (item: QuarantinedItem) => {
+    setRepairingItem(item);
+    setEditingCredential(salvageCredential(item));
+    setShowRepair(false);
+    setShowForm(true);
+  };
+
+  const handleDiscard = async (item: QuarantinedItem) => {
+    if (!(await resolveItem(item.id, null))) return;
+    toast.success('Item discarded');
+    if (session.quarantine.length === 0) setShowRepair(false);
+  };
+
+  const handleTransfer = async (id: string, targetVaultId: string, move: boolean) => {
+    const target = openVaults.find((vault) => vault.id === targetVaultId);
+    try {
+      await onTransfer([id], targetVaultId, move);
+      toast.success(`Credential ${move ? 'moved' : 'copied'} to ${target?.name}`);
+    } catch {
+      toast.error(`Could not ${move ? 'move' : 'copy'} the credential`);
+    }
   };
 
-  const handleResetVault = () => {
-    deleteVault();
+  const handleMerge = async (merged: Credential[]) => {
+    await commitChange(credentials, merged);
+  };
+
+  const handleImport = async (imported: Credential[]) => {
+    await commitChange(credentials, [...credentials, ...imported]);
+    toast.success(`Imported ${imported.length} credential${imported.length === 1 ? '' : 's'}`);
+  };
+
+  const handleRestored = (vaultId: string) => {
+    // An open vault that was replaced has to be unlocked again from the restored copy
+    if (openVaults.some((vault) => vault.id === vaultId)) {
+      toast.info('Unlock the restored vault to continue');
+      onLock();
+    }
+  };
+
+  const handleResetVault = async () => {
+    await deleteVault(session.vaultId);
+    await unlinkVaultFile(session.vaultId);
     toast.success('Vault deleted');
     window.location.reload();
   };
@@ -141,7 +577,29 @@ export function VaultDashboard({ credentials, masterPassword, onLock, onUpdate }
                 <Shield className="w-5 h-5 text-primary" />
               </div>
               <div>
-                <h1 className="font-bold text-lg text-foreground">SecureVault</h1>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button className="flex items-center gap-1 font-bold text-lg text-foreground hover:text-primary transition-colors">
+                      {vaultName}
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start" className="w-56">
+                    <DropdownMenuLabel>Unlocked Vaults</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    {openVaults.map((vault) => (
+                      <DropdownMenuItem key={vault.id} onClick={() => onSwitchVault(vault.id)}>
+                        <Check className={`w-4 h-4 mr-2 ${vault.id === session.vaultId ? '' : 'invisible'}`} />
+                        {vault.name}
+                      </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={onUnlockAnother}>
+                      <Unlock className="w-4 h-4 mr-2" />
+                      Unlock Another Vault
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <p className="text-xs text-muted-foreground">{stats.total} credentials</p>
               </div>
             </div>
@@ -150,7 +608,71 @@ export function VaultDashboard({ credentials, masterPassword, onLock, onUpdate }
               <Button variant="ghost" size="icon" onClick={() => setShowGenerator(true)} title="Password Generator">
                 <Wand2 className="w-5 h-5" />
               </Button>
-              <Button variant="ghost" size="icon" onClick={onLock} title="Lock Vault">
+              <Button variant="ghost" size="icon" onClick={() => setShowChangePassword(true)} title="Change Master Password">
+                <KeyRound className="w-5 h-5" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setShowTrustees(true)} title="Trustee Recovery">
+                <Split className="w-5 h-5" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setShowUnlockPolicy(true)} title="Unlock Protection">
+                <ShieldAlert className="w-5 h-5" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setShowSync(true)} title="Sync">
+                <RefreshCw
+                  className={`w-5 h-5 ${isSyncing ? 'animate-spin' : ''} ${syncError ? 'text-destructive' : syncEnabled ? 'text-primary' : ''}`}
+                />
+              </Button>
+              {fileLink && (
+                <Button variant="ghost" size="icon" onClick={() => setShowVaultFile(true)} title="Vault File">
+                  <HardDrive
+                    className={`w-5 h-5 ${
+                      fileError || fileStatus === 'conflict'
+                        ? 'text-destructive'
+                        : fileStatus === 'unsaved'
+                          ? 'text-warning'
+                          : 'text-primary'
+                    }`}
+                  />
+                </Button>
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" title="Import & Export">
+                    <ArrowDownUp className="w-5 h-5" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-56">
+                  <DropdownMenuItem onClick={() => setShowBackup(true)}>
+                    <Archive className="w-4 h-4 mr-2" />
+                    Backup & Restore
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowRemoteBackup(true)}>
+                    <CloudUpload className="w-4 h-4 mr-2" />
+                    Remote Backups
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowVaultFile(true)}>
+                    <HardDrive className="w-4 h-4 mr-2" />
+                    Keep in a File
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowMerge(true)}>
+                    <GitMerge className="w-4 h-4 mr-2" />
+                    Merge Another Vault
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowImport(true)}>
+                    <FileInput className="w-4 h-4 mr-2" />
+                    Import from Another App
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowKdbxExport(true)}>
+                    <FileKey className="w-4 h-4 mr-2" />
+                    Export to KeePass
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowExport(true)}>
+                    <FileOutput className="w-4 h-4 mr-2" />
+                    Export to Another App
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button variant="ghost" size="icon" onClick={onLock} title={openVaults.length > 1 ? 'Lock All Vaults' : 'Lock Vault'}>
                 <Lock className="w-5 h-5" />
               </Button>
             </div>
@@ -159,6 +681,25 @@ export function VaultDashboard({ credentials, masterPassword, onLock, onUpdate }
       </header>
 
       <main className="container mx-auto px-4 py-6">
+        {/* Items that failed validation */}
+        {session.quarantine.length > 0 && (
+          <div className="mb-6 p-4 bg-destructive/10 border border-destructive/20 rounded-xl animate-fade-in">
+            <div className="flex items-start gap-3">
+              <Wrench className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <p className="font-medium text-destructive">Needs Repair</p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {session.quarantine.length} item{session.quarantine.length > 1 ? 's' : ''} in this vault
+                  could not be read.
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setShowRepair(true)}>
+                Review
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Health Overview */}
         {(stats.weak > 0 || stats.reused > 0) && (
           <div className="mb-6 p-4 bg-warning/10 border border-warning/20 rounded-xl animate-fade-in">
@@ -242,6 +783,8 @@ export function VaultDashboard({ credentials, masterPassword, onLock, onUpdate }
                   onEdit={(c) => { setEditingCredential(c); setShowForm(true); }}
                   onDelete={(id) => setShowDeleteConfirm(id)}
                   onToggleFavorite={handleToggleFavorite}
+                  transferTargets={transferTargets}
+                  onTransfer={handleTransfer}
                 />
               </div>
             ))}
@@ -288,7 +831,7 @@ export function VaultDashboard({ credentials, masterPassword, onLock, onUpdate }
       {/* Credential Form Modal */}
       <CredentialForm
         open={showForm}
-        onClose={() => { setShowForm(false); setEditingCredential(null); }}
+        onClose={() => { setShowForm(false); setEditingCredential(null); setRepairingItem(null); }}
         onSave={handleSave}
         credential={editingCredential}
       />
@@ -303,6 +846,131 @@ export function VaultDashboard({ credentials, masterPassword, onLock, onUpdate }
         </DialogContent>
       </Dialog>
 
+      {/* Change Master Password Modal */}
+      <ChangePasswordDialog
+        vaultId={session.vaultId}
+        open={showChangePassword}
+        onClose={() => setShowChangePassword(false)}
+      />
+      <TrusteeSharesDialog vaultId={session.vaultId} open={showTrustees} onClose={() => setShowTrustees(false)} />
+      <UnlockPolicyDialog
+        vaultId={session.vaultId}
+        open={showUnlockPolicy}
+        onClose={() => setShowUnlockPolicy(false)}
+      />
+
+      <BackupRestoreDialog
+        open={showBackup}
+        onClose={() => setShowBackup(false)}
+        vault={{ id: session.vaultId, name: vaultName }}
+        onRestored={handleRestored}
+      />
+      <RemoteBackupDialog
+        open={showRemoteBackup}
+        onClose={() => setShowRemoteBackup(false)}
+        vaultId={session.vaultId}
+        credentials={credentials}
+        settings={remoteBackup}
+        backupError={backupError}
+        isBackingUp={isBackingUp}
+        onBackUpNow={() => runBackup(true)}
+        onSaveTarget={(target) => commitChange(credentials, [...credentials, target])}
+        onChanged={async () => {
+          setBackupError('');
+          await loadRemoteBackup();
+        }}
+        onRestore={(data, source) => {
+          setShowRemoteBackup(false);
+          setRemoteRestore({ data, source });
+        }}
+      />
+      <BackupRestoreDialog
+        open={remoteRestore !== null}
+        onClose={() => setRemoteRestore(null)}
+        backup={remoteRestore}
+        onRestored={handleRestored}
+      />
+      <MergeImportDialog
+        open={showMerge}
+        onClose={() => setShowMerge(false)}
+        credentials={credentials}
+        onMerge={handleMerge}
+      />
+      <ImportDialog open={showImport} onClose={() => setShowImport(false)} onImport={handleImport} />
+      <KdbxExportDialog
+        open={showKdbxExport}
+        onClose={() => setShowKdbxExport(false)}
+        vaultName={vaultName}
+        credentials={credentials}
+      />
+      <SyncDialog
+        open={showSync}
+        onClose={() => setShowSync(false)}
+        vaultId={session.vaultId}
+        syncState={syncState}
+        syncError={syncError}
+        isSyncing={isSyncing}
+        onSyncNow={() => runSync(true)}
+        onChanged={async () => {
+          setSyncError('');
+          await loadSyncState();
+        }}
+      />
+      <ExportDialog
+        open={showExport}
+        onClose={() => setShowExport(false)}
+        vaultId={session.vaultId}
+        vaultName={vaultName}
+        credentials={credentials}
+      />
+      <VaultFileDialog
+        open={showVaultFile}
+        onClose={() => setShowVaultFile(false)}
+        vaultId={session.vaultId}
+        vaultName={vaultName}
+        link={fileLink}
+        status={fileStatus}
+        error={fileError}
+        onSaveNow={() => runVaultFileTask('save')}
+        onChanged={async () => {
+          setFileError('');
+          await loadFileLink();
+          await runVaultFileTask('check');
+        }}
+      />
+      <Dialog open={showFileConflict} onOpenChange={setShowFileConflict}>
+        <DialogContent className="sm:max-w-md bg-card border-border">
+          <DialogHeader>
+            <DialogTitle>Vault File Changed Elsewhere</DialogTitle>
+            <DialogDescription>
+              {fileLink?.fileName} was changed outside this browser, and this vault has changes that aren't in the
+              file yet. Load the file to discard the changes made here, or keep this version and overwrite the
+              file.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => resolveFileConflict('load')}>
+              Load File
+            </Button>
+            <Button onClick={() => resolveFileConflict('overwrite')}>Keep This Version</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      <TabConflictDialog
+        plan={tabConflicts?.plan ?? null}
+        onResolve={(resolutions) => {
+          tabConflicts?.resolve(resolutions);
+          setTabConflicts(null);
+        }}
+      />
+      <RepairDialog
+        open={showRepair}
+        items={session.quarantine}
+        onClose={() => setShowRepair(false)}
+        onRepair={handleRepair}
+        onDiscard={handleDiscard}
+      />
+
       {/* Delete Confirmation */}
       <Dialog open={!!showDeleteConfirm} onOpenChange={() => setShowDeleteConfirm(null)}>
         <DialogContent className="sm:max-w-md bg-card border-border">
@@ -327,9 +995,9 @@ export function VaultDashboard({ credentials, masterPassword, onLock, onUpdate }
       <Dialog open={showResetConfirm} onOpenChange={setShowResetConfirm}>
         <DialogContent className="sm:max-w-md bg-card border-border">
           <DialogHeader>
-            <DialogTitle className="text-destructive">Delete Entire Vault</DialogTitle>
+            <DialogTitle className="text-destructive">Delete {vaultName}</DialogTitle>
             <DialogDescription>
-              This will permanently delete all your credentials and reset the vault. This action cannot be undone.
+              This will permanently delete this vault and all its credentials. This action cannot be undone.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="gap-2 sm:gap-0">
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { HardDrive, AlertTriangle, Download, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  VaultFileLink,
+  VaultFileStatus,
+  VaultFileError,
+  supportsFileHandles,
+  pickNewVaultFile,
+  linkVaultFile,
+  unlinkVaultFile,
+  downloadVaultFile,
+  vaultFileName,
+} from '@/lib/vaultFile';
+import { toast } from 'sonner';
+
+interface VaultFileDialogProps {
+  open: boolean;
+  onClose: () => void;
+  vaultId: string;
+  vaultName: string;
+  // Null while the vault is only kept in this browser
+  link: VaultFileLink | null;
+  status: VaultFileStatus | null;
+  // Why the file could not be used, if it couldn't
+  error: string;
+  // Save to the file, asking for access to it if needed
+  onSaveNow: () => Promise<void>;
+  // Called after the vault was linked to a file or unlinked
+  onChanged: () => Promise<void>;
+}
+
+export function VaultFileDialog({
+  open,
+  onClose,
+  vaultId,
+  vaultName,
+  link,
+  status,
+  error,
+  onSaveNow,
+  onChanged,
+}: VaultFileDialogProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const hasHandles = supportsFileHandles();
+
+  const run = async (action: () => Promise<void>) => {
+    setIsLoading(true);
+    try {
+      await action();
+    } catch (err) {
+      toast.error(err instanceof VaultFileError ? err.message : 'The vault file could not be saved');
+    }
+    setIsLoading(false);
+  };
+
+  const handleLink = () =>
+    run(async () => {
+      if (hasHandles) {
+        const handle = await pickNewVaultFile(vaultFileName(vaultName));
+        if (!handle) return;
+        await linkVaultFile(vaultId, handle, handle.name);
+      } else {
+        await linkVaultFile(vaultId, null, vaultFileName(vaultName));
+        await downloadVaultFile(vaultId);
+      }
+      await onChanged();
+      toast.success('Vault saved to a file');
+    });
+
+  const handleDownload = () =>
+    run(async () => {
+      await downloadVaultFile(vaultId);
+      await onChanged();
+    });
+
+  const handleUnlink = () =>
+    run(async () => {
+      await unlinkVaultFile(vaultId);
+      await onChanged();
+      toast.success('The vault is no longer saved to its file');
+    });
+
+  const describeStatus = () => {
+    if (!link) return '';
+    if (status === 'unsaved') return 'Changes not downloaded yet';
+    if (status === 'conflict') return 'The file was changed elsewhere';
+    return link.savedAt ? `Saved ${new Date(link.savedAt).toLocaleString()}` : 'Up to date';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Vault File</DialogTitle>
+          <DialogDescription>
+            {hasHandles
+              ? 'Keep the encrypted vault in a file you choose, e.g. in a synced folder. Every change is saved to it, and changes made to the file elsewhere are loaded.'
+              : 'Keep the encrypted vault in a file you can open in any browser. This browser can\'t save to files directly, so download the file again after changes.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {link ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3 p-3 bg-secondary/30 rounded-lg">
+              <HardDrive className="w-5 h-5 text-primary flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{link.fileName}</p>
+                <p className="text-xs text-muted-foreground">{describeStatus()}</p>
+              </div>
+            </div>
+
+            {error && (
+              <div className="flex items-center gap-2 text-destructive text-sm bg-destructive/10 p-3 rounded-lg">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button variant="outline" onClick={handleUnlink} disabled={isLoading}>
+                Stop Using File
+              </Button>
+              {link.handle ? (
+                <Button onClick={() => run(onSaveNow)} disabled={isLoading}>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Now
+                </Button>
+              ) : (
+                <Button onClick={handleDownload} disabled={isLoading}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download
+                </Button>
+              )}
+            </DialogFooter>
+          </div>
+        ) : (
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={handleLink} disabled={isLoading}>
+              <HardDrive className="w-4 h-4 mr-2" />
+              {hasHandles ? 'Choose File' : 'Download Vault File'}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
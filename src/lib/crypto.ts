@@ -1,8 +1,100 @@
 // Web Crypto API based encryption utilities for zero-knowledge password vault
 
+import { argon2id } from 'hash-wasm';
+
 const SALT_LENGTH = 16;
 const IV_LENGTH = 12;
 const KEY_ITERATIONS = 100000;
+const KEY_LENGTH = 32;
+
+// Ciphertext envelope format. Version 1 is the original headerless salt||iv||ciphertext
+// blob; version 2 and later carry a JSON header describing how the data was encrypted.
+// Version 3 makes the KDF fields optional for data encrypted with a random data key.
+// Version 4 adds an optional vault context and authenticates the header as AES-GCM AAD.
+export const LEGACY_ENVELOPE_VERSION = 1;
+export const ENVELOPE_VERSION = 4;
+const AAD_ENVELOPE_VERSION = 4;
+
+export type CipherId = 'aes-256-gcm';
+
+export interface Pbkdf2Params {
+  id: 'pbkdf2-sha256';
+  iterations: number;
+}
+
+export interface Argon2idParams {
+  id: 'argon2id';
+  memoryKiB: number;
+  iterations: number;
+  parallelism: number;
+}
+
+export type KdfParams = Pbkdf2Params | Argon2idParams;
+export type KdfId = KdfParams['id'];
+
+export const DEFAULT_ARGON2ID: Argon2idParams = {
+  id: 'argon2id',
+  memoryKiB: 65536,
+  iterations: 3,
+  parallelism: 1,
+};
+
+// Parameters used for legacy headerless envelopes
+const LEGACY_KDF: KdfParams = { id: 'pbkdf2-sha256', iterations: KEY_ITERATIONS };
+
+// Parameters new ciphertexts are written with; older envelopes are upgraded on unlock
+export const RECOMMENDED_KDF: KdfParams = { id: 'pbkdf2-sha256', iterations: 600000 };
+
+// Key derivation time calibration aims for at vault creation
+export const TARGET_KDF_MS = 750;
+
+// Minimum Argon2id cost calibration may pick on slow devices
+const MIN_ARGON2ID: Argon2idParams = { id: 'argon2id', memoryKiB: 19456, iterations: 2, parallelism: 1 };
+const MAX_ARGON2ID_MEMORY_KIB = 262144;
+const MAX_ARGON2ID_ITERATIONS = 10;
+
+// Measured throughput of each KDF on this device
+export interface KdfBenchmark {
+  pbkdf2MsPerIteration: number;
+  argon2idMsPerKiBPass: number;
+}
+
+// Vault identity bound to a ciphertext as additional authenticated data
+export interface EnvelopeContext {
+  vaultId: string;
+  revision?: number;
+}
+
+// kdf and salt are null when the ciphertext was encrypted with a data key rather than a password
+export interface EnvelopeHeader {
+  version: number;
+  kdf: KdfParams | null;
+  salt: Uint8Array | null;
+  cipher: CipherId;
+  context: EnvelopeContext | null;
+  // Whether the key was derived from the password combined with an account secret key
+  usesSecretKey: boolean;
+}
+
+interface SerializedEnvelope {
+  v: number;
+  kdf?: KdfParams;
+  salt?: string;
+  cipher: CipherId;
+  vault?: string;
+  rev?: number;
+  sk?: boolean;
+  iv: string;
+  data: string;
+}
+
+// Thrown when a ciphertext was written by a newer app or uses an unknown algorithm
+export class UnsupportedFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedFormatError';
+  }
+}
 
 // Convert string to Uint8Array
 function stringToBuffer(str: string): Uint8Array {
@@ -33,143 +125,433 @@ function base64ToUint8Array(base64: string): Uint8Array {
   return bytes;
 }
 
-// Derive encryption key from master password using PBKDF2
-async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
+// Convert bytes to lower-case hex
+export function bufferToHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// SHA-256 of a string as lower-case hex
+export async function sha256Hex(data: string): Promise<string> {
+  return bufferToHex(await crypto.subtle.digest('SHA-256', stringToBuffer(data)));
+}
+
+// Key material held for the lifetime of an unlocked vault
+// salt and kdf are only set for password-derived keys
+export interface Keyring {
+  key: CryptoKey;
+  salt?: Uint8Array;
+  kdf?: KdfParams;
+  usesSecretKey?: boolean;
+}
+
+// Check KDF parameters are usable, returning a user-facing error message if not
+export function validateKdfParams(kdf: KdfParams): string | null {
+  switch (kdf.id) {
+    case 'pbkdf2-sha256':
+      if (!Number.isInteger(kdf.iterations) || kdf.iterations < KEY_ITERATIONS) {
+        return `PBKDF2 needs at least ${KEY_ITERATIONS.toLocaleString()} iterations`;
+      }
+      return null;
+    case 'argon2id':
+      if (!Number.isInteger(kdf.parallelism) || kdf.parallelism < 1 || kdf.parallelism > 16) {
+        return 'Argon2id parallelism must be between 1 and 16';
+      }
+      if (!Number.isInteger(kdf.iterations) || kdf.iterations < 1) {
+        return 'Argon2id needs at least 1 iteration';
+      }
+      if (!Number.isInteger(kdf.memoryKiB) || kdf.memoryKiB < 8192 || kdf.memoryKiB > 1048576) {
+        return 'Argon2id memory must be between 8 MiB and 1 GiB';
+      }
+      return null;
+    default:
+      return 'Unknown key derivation function';
+  }
+}
+
+// Compare two sets of KDF parameters
+export function kdfParamsEqual(a: KdfParams, b: KdfParams): boolean {
+  if (a.id === 'pbkdf2-sha256' && b.id === 'pbkdf2-sha256') {
+    return a.iterations === b.iterations;
+  }
+  if (a.id === 'argon2id' && b.id === 'argon2id') {
+    return a.memoryKiB === b.memoryKiB && a.iterations === b.iterations && a.parallelism === b.parallelism;
+  }
+  return false;
+}
+
+// Derive raw key bytes from the master password using the given KDF
+async function deriveKeyBits(password: string, salt: Uint8Array, kdf: KdfParams): Promise<Uint8Array> {
   const passwordBuffer = stringToBuffer(password);
-  
+
+  if (kdf.id === 'argon2id') {
+    // Bundled WASM implementation, runs fully offline
+    return argon2id({
+      password: passwordBuffer,
+      salt,
+      iterations: kdf.iterations,
+      parallelism: kdf.parallelism,
+      memorySize: kdf.memoryKiB,
+      hashLength: KEY_LENGTH,
+      outputType: 'binary',
+    });
+  }
+
+  if (kdf.id !== 'pbkdf2-sha256') {
+    throw new UnsupportedFormatError(`Unsupported key derivation function: ${(kdf as KdfParams).id}`);
+  }
+
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
     passwordBuffer as BufferSource,
     'PBKDF2',
     false,
-    ['deriveKey']
+    ['deriveBits']
   );
 
-  return crypto.subtle.deriveKey(
+  const derivedBits = await crypto.subtle.deriveBits(
     {
       name: 'PBKDF2',
       salt: salt as BufferSource,
-      iterations: KEY_ITERATIONS,
+      iterations: kdf.iterations,
       hash: 'SHA-256',
     },
     keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt', 'decrypt']
+    KEY_LENGTH * 8
   );
-}
 
-// Encrypt data with AES-256-GCM
-export async function encrypt(plaintext: string, masterPassword: string): Promise<string> {
-  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
-  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
-  const key = await deriveKey(masterPassword, salt);
-
-  const encryptedData = await crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv: iv as BufferSource },
-    key,
-    stringToBuffer(plaintext) as BufferSource
-  );
-
-  // Combine salt + iv + encrypted data
-  const combined = new Uint8Array(SALT_LENGTH + IV_LENGTH + encryptedData.byteLength);
-  combined.set(salt, 0);
-  combined.set(iv, SALT_LENGTH);
-  combined.set(new Uint8Array(encryptedData), SALT_LENGTH + IV_LENGTH);
-
-  return uint8ArrayToBase64(combined);
+  return new Uint8Array(derivedBits);
 }
 
-// Decrypt data with AES-256-GCM
-export async function decrypt(ciphertext: string, masterPassword: string): Promise<string> {
-  const combined = base64ToUint8Array(ciphertext);
-  
-  const salt = combined.slice(0, SALT_LENGTH);
-  const iv = combined.slice(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
-  const encryptedData = combined.slice(SALT_LENGTH + IV_LENGTH);
-
-  const key = await deriveKey(masterPassword, salt);
-
-  const decryptedData = await crypto.subtle.decrypt(
-    { name: 'AES-GCM', iv: iv as BufferSource },
-    key,
-    encryptedData as BufferSource
-  );
-
-  return bufferToString(decryptedData);
-}
-
-// Hash password for verification (not for encryption key)
-export async function hashPassword(password: string): Promise<string> {
-  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
-  const passwordBuffer = stringToBuffer(password);
-  
+// Expand a high-entropy secret key into key-sized bits with HKDF-SHA256
+async function deriveSecretKeyBits(secretKey: Uint8Array, salt: Uint8Array): Promise<Uint8Array> {
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
-    passwordBuffer as BufferSource,
-    'PBKDF2',
+    secretKey as BufferSource,
+    'HKDF',
     false,
     ['deriveBits']
   );
 
   const derivedBits = await crypto.subtle.deriveBits(
     {
-      name: 'PBKDF2',
-      salt: salt as BufferSource,
-      iterations: KEY_ITERATIONS,
+      name: 'HKDF',
       hash: 'SHA-256',
+      salt: salt as BufferSource,
+      info: stringToBuffer('SecureVault secret key') as BufferSource,
     },
     keyMaterial,
-    256
+    KEY_LENGTH * 8
   );
 
-  const combined = new Uint8Array(SALT_LENGTH + derivedBits.byteLength);
-  combined.set(salt, 0);
-  combined.set(new Uint8Array(derivedBits), SALT_LENGTH);
+  return new Uint8Array(derivedBits);
+}
+
+// Derive a non-extractable AES-GCM key from the master password, optionally XOR-ing in
+// bits from the account secret key so the password alone is not enough to derive it
+async function deriveKey(
+  password: string,
+  salt: Uint8Array,
+  kdf: KdfParams,
+  secretKey?: Uint8Array
+): Promise<CryptoKey> {
+  const bits = await deriveKeyBits(password, salt, kdf);
+  if (secretKey) {
+    const secretBits = await deriveSecretKeyBits(secretKey, salt);
+    for (let i = 0; i < bits.length; i++) bits[i] ^= secretBits[i];
+    secretBits.fill(0);
+  }
 
-  return uint8ArrayToBase64(combined);
+  try {
+    return await crypto.subtle.importKey(
+      'raw',
+      bits as BufferSource,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  } finally {
+    bits.fill(0);
+  }
 }
 
-// Verify password against stored hash
-export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+// Time both KDFs with small parameters so full costs can be extrapolated
+export async function benchmarkKdf(): Promise<KdfBenchmark> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const pbkdf2: Pbkdf2Params = { id: 'pbkdf2-sha256', iterations: 50000 };
+  const argon2: Argon2idParams = { id: 'argon2id', memoryKiB: 16384, iterations: 1, parallelism: 1 };
+
+  const time = async (kdf: KdfParams) => {
+    const start = performance.now();
+    (await deriveKeyBits('benchmark', salt, kdf)).fill(0);
+    return Math.max(performance.now() - start, 1);
+  };
+
+  // The first Argon2id run includes WASM compilation, so only the second is measured
+  await time(argon2);
+  const argon2Ms = await time(argon2);
+  const pbkdf2Ms = await time(pbkdf2);
+
+  return {
+    pbkdf2MsPerIteration: pbkdf2Ms / pbkdf2.iterations,
+    argon2idMsPerKiBPass: argon2Ms / (argon2.memoryKiB * argon2.iterations),
+  };
+}
+
+// Estimate how long one key derivation with the given parameters takes on this device
+export function estimateKdfMs(kdf: KdfParams, benchmark: KdfBenchmark): number {
+  if (kdf.id === 'argon2id') {
+    return kdf.memoryKiB * kdf.iterations * benchmark.argon2idMsPerKiBPass;
+  }
+  return kdf.iterations * benchmark.pbkdf2MsPerIteration;
+}
+
+// Pick parameters for the given KDF that take roughly targetMs, never going below safe minimums
+export function calibrateKdf(id: KdfId, benchmark: KdfBenchmark, targetMs: number = TARGET_KDF_MS): KdfParams {
+  if (id === 'argon2id') {
+    const passBudget = targetMs / benchmark.argon2idMsPerKiBPass;
+    let memoryKiB = DEFAULT_ARGON2ID.memoryKiB;
+    let iterations = Math.round(passBudget / memoryKiB);
+
+    if (iterations < MIN_ARGON2ID.iterations) {
+      iterations = MIN_ARGON2ID.iterations;
+      memoryKiB = Math.floor(passBudget / iterations / 1024) * 1024;
+    } else if (iterations > MAX_ARGON2ID_ITERATIONS) {
+      iterations = MAX_ARGON2ID_ITERATIONS;
+      memoryKiB = Math.floor(passBudget / iterations / 1024) * 1024;
+    }
+
+    return {
+      id: 'argon2id',
+      memoryKiB: Math.min(Math.max(memoryKiB, MIN_ARGON2ID.memoryKiB), MAX_ARGON2ID_MEMORY_KIB),
+      iterations,
+      parallelism: DEFAULT_ARGON2ID.parallelism,
+    };
+  }
+
+  const iterations = Math.round(targetMs / benchmark.pbkdf2MsPerIteration / 10000) * 10000;
+  return {
+    id: 'pbkdf2-sha256',
+    iterations: Math.max(iterations, (RECOMMENDED_KDF as Pbkdf2Params).iterations),
+  };
+}
+
+// Short human-readable summary of KDF parameters
+export function describeKdf(kdf: KdfParams): string {
+  if (kdf.id === 'argon2id') {
+    return `Argon2id · ${Math.round(kdf.memoryKiB / 1024)} MiB · ${kdf.iterations} passes · ${kdf.parallelism} lane${kdf.parallelism > 1 ? 's' : ''}`;
+  }
+  return `PBKDF2-SHA256 · ${kdf.iterations.toLocaleString()} iterations`;
+}
+
+// Derive a keyring once so it can be reused for every encrypt/decrypt while unlocked.
+// Pass the header of an existing ciphertext to reopen it, or KDF parameters for a new vault.
+// A secret key is required when reopening a ciphertext whose header says it used one.
+export async function createKeyring(
+  password: string,
+  source: EnvelopeHeader | KdfParams = RECOMMENDED_KDF,
+  secretKey?: Uint8Array
+): Promise<Keyring> {
+  const header = 'salt' in source ? source : null;
+  if (header && !header.kdf) {
+    throw new Error('Ciphertext is not protected by a password-derived key');
+  }
+  if (header && header.usesSecretKey !== !!secretKey) {
+    throw new Error(header.usesSecretKey ? 'Secret key required' : 'Ciphertext does not use a secret key');
+  }
+
+  const kdf = header ? header.kdf : (source as KdfParams);
+  const salt = header ? header.salt : crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const key = await deriveKey(password, salt, kdf, secretKey);
+  return { key, salt, kdf, usesSecretKey: !!secretKey };
+}
+
+// Check value of an account secret key, bound to its vault. Recovery unwraps the data key
+// without the secret key, so this is what tells a mistyped secret key apart.
+export async function computeSecretKeyCheck(secretKey: Uint8Array, vaultId: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    secretKey as BufferSource,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const tag = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`secret-key-check:${vaultId}`));
+  return uint8ArrayToBase64(new Uint8Array(tag));
+}
+
+// Generate random bytes for a vault data-encryption key
+export function generateDataKey(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(KEY_LENGTH));
+}
+
+// Import data key bytes as a non-extractable keyring and wipe the bytes
+export async function importDataKey(bytes: Uint8Array): Promise<Keyring> {
   try {
-    const combined = base64ToUint8Array(storedHash);
-    const salt = combined.slice(0, SALT_LENGTH);
-    
-    const passwordBuffer = stringToBuffer(password);
-    
-    const keyMaterial = await crypto.subtle.importKey(
+    const key = await crypto.subtle.importKey(
       'raw',
-      passwordBuffer as BufferSource,
-      'PBKDF2',
+      bytes as BufferSource,
+      { name: 'AES-GCM', length: 256 },
       false,
-      ['deriveBits']
+      ['encrypt', 'decrypt']
     );
+    return { key };
+  } finally {
+    bytes.fill(0);
+  }
+}
+
+// Encrypt a data key with a password-derived key-encryption keyring
+export async function wrapDataKey(
+  dataKey: Uint8Array,
+  kek: Keyring,
+  context?: EnvelopeContext
+): Promise<string> {
+  return encryptBytes(dataKey, kek, context);
+}
+
+// Decrypt a wrapped data key and import it for use by the session
+export async function unwrapDataKey(wrappedKey: string, kek: Keyring): Promise<Keyring> {
+  return importDataKey(await decryptBytes(wrappedKey, kek));
+}
+
+// Re-encrypt a wrapped data key under a new key-encryption keyring without importing it
+export async function rewrapDataKey(
+  wrappedKey: string,
+  oldKek: Keyring,
+  newKek: Keyring,
+  context?: EnvelopeContext
+): Promise<string> {
+  const dataKey = await decryptBytes(wrappedKey, oldKek);
+  try {
+    return await encryptBytes(dataKey, newKek, context);
+  } finally {
+    dataKey.fill(0);
+  }
+}
 
-    const derivedBits = await crypto.subtle.deriveBits(
-      {
-        name: 'PBKDF2',
-        salt: salt as BufferSource,
-        iterations: KEY_ITERATIONS,
-        hash: 'SHA-256',
-      },
-      keyMaterial,
-      256
+// Parse the envelope JSON, returning null for legacy headerless ciphertexts
+function parseEnvelope(ciphertext: string): SerializedEnvelope | null {
+  if (!ciphertext.startsWith('{')) return null;
+
+  const envelope: SerializedEnvelope = JSON.parse(ciphertext);
+  if (typeof envelope.v !== 'number' || envelope.v > ENVELOPE_VERSION) {
+    throw new UnsupportedFormatError(
+      'This vault was created by a newer version of SecureVault. Please update the app.'
     );
+  }
+  if (envelope.cipher !== 'aes-256-gcm') {
+    throw new UnsupportedFormatError(`Unsupported cipher: ${envelope.cipher}`);
+  }
+  return envelope;
+}
 
-    const storedBits = combined.slice(SALT_LENGTH);
-    const newBits = new Uint8Array(derivedBits);
+// Read how a ciphertext was encrypted without decrypting it
+export function readEnvelopeHeader(ciphertext: string): EnvelopeHeader {
+  const envelope = parseEnvelope(ciphertext);
+
+  if (!envelope) {
+    return {
+      version: LEGACY_ENVELOPE_VERSION,
+      kdf: LEGACY_KDF,
+      salt: base64ToUint8Array(ciphertext).slice(0, SALT_LENGTH),
+      cipher: 'aes-256-gcm',
+      context: null,
+      usesSecretKey: false,
+    };
+  }
 
-    if (storedBits.length !== newBits.length) return false;
-    
-    for (let i = 0; i < storedBits.length; i++) {
-      if (storedBits[i] !== newBits[i]) return false;
-    }
-    
-    return true;
-  } catch {
-    return false;
+  return {
+    version: envelope.v,
+    kdf: envelope.kdf ?? null,
+    salt: envelope.salt ? base64ToUint8Array(envelope.salt) : null,
+    cipher: envelope.cipher,
+    context: envelope.vault !== undefined ? { vaultId: envelope.vault, revision: envelope.rev } : null,
+    usesSecretKey: envelope.sk === true,
+  };
+}
+
+// Additional authenticated data covering every header field, so the vault identity,
+// revision and KDF parameters cannot be altered without failing decryption
+function envelopeAad(envelope: SerializedEnvelope): Uint8Array {
+  const { v, kdf, salt, cipher, vault, rev, sk } = envelope;
+  return stringToBuffer(JSON.stringify({ v, kdf, salt, cipher, vault, rev, sk }));
+}
+
+// Check whether a ciphertext should be re-encrypted with the current format and
+// the vault's target parameters (data-key ciphertexts have no KDF to compare)
+export function isEnvelopeOutdated(header: EnvelopeHeader, target: KdfParams = RECOMMENDED_KDF): boolean {
+  if (header.version < ENVELOPE_VERSION) return true;
+  return header.kdf !== null && !kdfParamsEqual(header.kdf, target);
+}
+
+// Encrypt bytes with AES-256-GCM
+async function encryptBytes(
+  plaintext: Uint8Array,
+  keyring: Keyring,
+  context?: EnvelopeContext
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+  const envelope: SerializedEnvelope = {
+    v: ENVELOPE_VERSION,
+    ...(keyring.kdf && { kdf: keyring.kdf, salt: uint8ArrayToBase64(keyring.salt) }),
+    ...(keyring.usesSecretKey && { sk: true }),
+    cipher: 'aes-256-gcm',
+    ...(context && { vault: context.vaultId, rev: context.revision }),
+    iv: uint8ArrayToBase64(iv),
+    data: '',
+  };
+
+  const encryptedData = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv as BufferSource, additionalData: envelopeAad(envelope) as BufferSource },
+    keyring.key,
+    plaintext as BufferSource
+  );
+  envelope.data = uint8ArrayToBase64(new Uint8Array(encryptedData));
+
+  return JSON.stringify(envelope);
+}
+
+// Encrypt data with AES-256-GCM, optionally binding it to a vault context
+export async function encrypt(plaintext: string, keyring: Keyring, context?: EnvelopeContext): Promise<string> {
+  return encryptBytes(stringToBuffer(plaintext), keyring, context);
+}
+
+// Decrypt data with AES-256-GCM
+export async function decrypt(ciphertext: string, keyring: Keyring): Promise<string> {
+  const decryptedData = await decryptBytes(ciphertext, keyring);
+  return bufferToString(decryptedData.buffer as ArrayBuffer);
+}
+
+// Decrypt bytes with AES-256-GCM
+async function decryptBytes(ciphertext: string, keyring: Keyring): Promise<Uint8Array> {
+  const envelope = parseEnvelope(ciphertext);
+
+  let iv: Uint8Array;
+  let encryptedData: Uint8Array;
+  let additionalData: Uint8Array | undefined;
+  if (envelope) {
+    iv = base64ToUint8Array(envelope.iv);
+    encryptedData = base64ToUint8Array(envelope.data);
+    if (envelope.v >= AAD_ENVELOPE_VERSION) additionalData = envelopeAad(envelope);
+  } else {
+    // Legacy layout: salt + iv + encrypted data
+    const combined = base64ToUint8Array(ciphertext);
+    iv = combined.slice(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
+    encryptedData = combined.slice(SALT_LENGTH + IV_LENGTH);
   }
+
+  const decryptedData = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: iv as BufferSource,
+      ...(additionalData && { additionalData: additionalData as BufferSource }),
+    },
+    keyring.key,
+    encryptedData as BufferSource
+  );
+
+  return new Uint8Array(decryptedData);
 }
 
 // Generate a secure random password
@@ -0,0 +1,107 @@
+// Minimal RFC 4180 CSV parsing and formatting for imports and exports
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+export type CsvQuote = '"' | "'";
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+export const CSV_QUOTES: CsvQuote[] = ['"', "'"];
+export const TEXT_ENCODINGS: TextEncoding[] = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252'];
+
+// Parse CSV text into rows of fields. Quoted fields may contain the delimiter, escaped
+// quotes ("") and line breaks. A missing closing quote takes the rest of the text.
+export function parseCsv(text: string, delimiter: CsvDelimiter = ',', quote: CsvQuote = '"'): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char !== quote) {
+        field += char;
+      } else if (text[i + 1] === quote) {
+        field += quote;
+        i++;
+      } else {
+        inQuotes = false;
+      }
+    } else if (char === quote && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter((r) => r.length > 1 || r[0] !== '');
+}
+
+// Delimiter that splits the first lines into the same number of fields, preferring more fields
+export function detectDelimiter(text: string, quote: CsvQuote = '"'): CsvDelimiter {
+  const sample = text.slice(0, 16384);
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const rows = parseCsv(sample, delimiter, quote).slice(0, 10);
+    // The last row of the sample may be cut off
+    const complete = rows.length > 1 ? rows.slice(0, -1) : rows;
+    const width = complete[0]?.length ?? 0;
+    const consistent = complete.filter((row) => row.length === width).length;
+    const score = width > 1 ? consistent * width : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Quote character that starts fields, defaulting to the standard double quote
+export function detectQuote(text: string, delimiter: CsvDelimiter): CsvQuote {
+  const sample = text.slice(0, 16384);
+  // Quotes right after the start of a line or a delimiter
+  const count = (quote: CsvQuote) =>
+    sample.split(/\r?\n/).reduce((total, line) => total + line.split(delimiter).filter((f) => f.startsWith(quote)).length, 0);
+  return count("'") > count('"') ? "'" : '"';
+}
+
+// Encoding from a byte order mark, or UTF-8 if the bytes are valid UTF-8, or Windows-1252
+// as used by spreadsheet apps on Windows
+export function detectEncoding(bytes: Uint8Array): TextEncoding {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+// Decode file bytes as text; the decoder drops a byte order mark
+export function decodeText(bytes: Uint8Array, encoding: TextEncoding = 'utf-8'): string {
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+// Format rows as CSV, quoting fields that hold the delimiter, quotes, line breaks or
+// leading or trailing spaces
+export function formatCsv(rows: string[][], delimiter: CsvDelimiter = ','): string {
+  const quoteField = (field: string) =>
+    field.includes(delimiter) || /["\r\n]/.test(field) || field !== field.trim() ? `"${field.replace(/"/g, '""')}"` : field;
+  return rows.map((row) => row.map(quoteField).join(delimiter)).join('\r\n') + '\r\n';
+}
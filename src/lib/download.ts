@@ -0,0 +1,9 @@
+// Save contents as a file through the browser's downloads
+export function downloadFile(contents: string | Uint8Array, filename: string, type = 'application/json'): void {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,149 @@
+// Exports to the formats of other password managers and browsers
+import { createKeyring, encrypt, decrypt, readEnvelopeHeader, UnsupportedFormatError } from './crypto';
+import { Credential, CredentialCategory, CATEGORY_INFO } from './vault';
+import { formatCsv } from './csv';
+
+export type ExportFormat = 'bitwarden-json' | 'generic-csv' | 'chrome-csv';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  'bitwarden-json': { label: 'Bitwarden (JSON)', extension: '.json', mimeType: 'application/json' },
+  'generic-csv': { label: 'CSV (all fields)', extension: '.csv', mimeType: 'text/csv' },
+  'chrome-csv': { label: 'Chrome (CSV)', extension: '.csv', mimeType: 'text/csv' },
+};
+
+// Encrypted exports are wrapped in a JSON file with this extension
+export const ENCRYPTED_EXPORT_EXTENSION = '.svexport';
+const ENCRYPTED_EXPORT_VERSION = 1;
+
+// Which credentials to export; no categories means all of them
+export interface ExportFilter {
+  categories: CredentialCategory[];
+  favoritesOnly: boolean;
+}
+
+// An export encrypted with its own password, readable by the import dialog
+interface EncryptedExport {
+  securevaultExport: number;
+  format: ExportFormat;
+  data: string;
+}
+
+export function filterForExport(credentials: Credential[], filter: ExportFilter): Credential[] {
+  return credentials.filter(
+    (credential) =>
+      (filter.categories.length === 0 || filter.categories.includes(credential.category)) &&
+      (!filter.favoritesOnly || credential.favorite)
+  );
+}
+
+// Unencrypted Bitwarden JSON export with a folder per category
+function toBitwarden(credentials: Credential[]): string {
+  const categories = [...new Set(credentials.map((credential) => credential.category))];
+  return JSON.stringify(
+    {
+      encrypted: false,
+      folders: categories.map((category) => ({ id: category, name: CATEGORY_INFO[category].label })),
+      items: credentials.map((credential) => ({
+        id: credential.id,
+        folderId: credential.category,
+        type: 1,
+        name: credential.name,
+        notes: credential.notes ?? null,
+        favorite: credential.favorite,
+        login: {
+          uris: credential.url ? [{ match: null, uri: credential.url }] : [],
+          username: credential.username,
+          password: credential.password,
+          totp: null,
+        },
+        creationDate: new Date(credential.createdAt).toISOString(),
+        revisionDate: new Date(credential.updatedAt).toISOString(),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// Every field, with headers the custom CSV import recognizes
+function toGenericCsv(credentials: Credential[]): string {
+  return formatCsv([
+    ['name', 'username', 'password', 'url', 'notes', 'category', 'favorite', 'created', 'updated'],
+    ...credentials.map((credential) => [
+      credential.name,
+      credential.username,
+      credential.password,
+      credential.url ?? '',
+      credential.notes ?? '',
+      CATEGORY_INFO[credential.category].label,
+      credential.favorite ? 'true' : 'false',
+      new Date(credential.createdAt).toISOString(),
+      new Date(credential.updatedAt).toISOString(),
+    ]),
+  ]);
+}
+
+// The columns Chrome's password manager imports
+function toChromeCsv(credentials: Credential[]): string {
+  return formatCsv([
+    ['name', 'url', 'username', 'password', 'note'],
+    ...credentials.map((credential) => [
+      credential.name,
+      credential.url ?? '',
+      credential.username,
+      credential.password,
+      credential.notes ?? '',
+    ]),
+  ]);
+}
+
+// Plaintext contents of an export file
+export function exportCredentials(format: ExportFormat, credentials: Credential[]): string {
+  switch (format) {
+    case 'bitwarden-json':
+      return toBitwarden(credentials);
+    case 'generic-csv':
+      return toGenericCsv(credentials);
+    case 'chrome-csv':
+      return toChromeCsv(credentials);
+  }
+}
+
+// Encrypt an export with a password of its own
+export async function encryptExport(format: ExportFormat, contents: string, password: string): Promise<string> {
+  const keyring = await createKeyring(password);
+  const wrapper: EncryptedExport = {
+    securevaultExport: ENCRYPTED_EXPORT_VERSION,
+    format,
+    data: await encrypt(contents, keyring),
+  };
+  return JSON.stringify(wrapper);
+}
+
+// Whether the text is an encrypted export
+export function isEncryptedExport(text: string): boolean {
+  try {
+    return typeof (JSON.parse(text) as EncryptedExport).securevaultExport === 'number';
+  } catch {
+    return false;
+  }
+}
+
+// Decrypt an encrypted export. Returns null if the password is wrong and throws
+// UnsupportedFormatError for exports made by a newer version of the app.
+export async function decryptExport(
+  text: string,
+  password: string
+): Promise<{ format: ExportFormat; contents: string } | null> {
+  const wrapper = JSON.parse(text) as EncryptedExport;
+  if (wrapper.securevaultExport > ENCRYPTED_EXPORT_VERSION || !(wrapper.format in EXPORT_FORMATS)) {
+    throw new UnsupportedFormatError('This export was made by a newer version of SecureVault');
+  }
+  try {
+    const keyring = await createKeyring(password, readEnvelopeHeader(wrapper.data));
+    return { format: wrapper.format, contents: await decrypt(wrapper.data, keyring) };
+  } catch (error) {
+    if (error instanceof UnsupportedFormatError) throw error;
+    return null;
+  }
+}
@@ -0,0 +1,693 @@
+// Importers for exports of other password managers and browsers
+import { unzipSync } from 'fflate';
+import { Credential, CredentialCategory, generateId } from './vault';
+import { readKdbx, KdbxKey, KdbxFileError, FAVORITE_TAG } from './kdbx';
+import { decryptExport, ENCRYPTED_EXPORT_EXTENSION } from './exporters';
+import { UnsupportedFormatError } from './crypto';
+import { parseCsv, decodeText, detectDelimiter, detectQuote, detectEncoding, CsvDelimiter, CsvQuote, TextEncoding } from './csv';
+
+export type ImportFormat =
+  | 'bitwarden-json'
+  | '1password-1pux'
+  | '1password-csv'
+  | 'lastpass-csv'
+  | 'keepass-xml'
+  | 'keepass-kdbx'
+  | 'securevault-export'
+  | 'securevault-csv'
+  | 'chrome-csv'
+  | 'firefox-csv'
+  | 'safari-csv';
+
+export const IMPORT_FORMATS: Record<ImportFormat, { label: string; accept: string }> = {
+  'bitwarden-json': { label: 'Bitwarden (JSON)', accept: '.json' },
+  '1password-1pux': { label: '1Password (1PUX)', accept: '.1pux' },
+  '1password-csv': { label: '1Password (CSV)', accept: '.csv' },
+  'lastpass-csv': { label: 'LastPass (CSV)', accept: '.csv' },
+  'keepass-xml': { label: 'KeePass 2 (XML)', accept: '.xml' },
+  'keepass-kdbx': { label: 'KeePass 2 / KeePassXC (KDBX)', accept: '.kdbx' },
+  'securevault-export': { label: 'SecureVault encrypted export', accept: ENCRYPTED_EXPORT_EXTENSION },
+  'securevault-csv': { label: 'SecureVault (CSV, all fields)', accept: '.csv' },
+  'chrome-csv': { label: 'Chrome (CSV)', accept: '.csv' },
+  'firefox-csv': { label: 'Firefox (CSV)', accept: '.csv' },
+  'safari-csv': { label: 'Safari (CSV)', accept: '.csv' },
+};
+
+// An entry that couldn't be imported
+export interface ImportIssue {
+  // Where the entry is in the file, e.g. "Row 12" or an item title
+  location: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  credentials: Credential[];
+  issues: ImportIssue[];
+}
+
+// Thrown when a file can't be imported at all
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// Fields read from an entry before it becomes a credential
+interface ImportedEntry {
+  name?: string;
+  username?: string;
+  password?: string;
+  url?: string;
+  notes?: string;
+  // Folders, groups and tags used to pick a category
+  labels?: string[];
+  // Category chosen by the user, used instead of the labels
+  category?: CredentialCategory;
+  favorite?: boolean;
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+// Words in folder, group or tag names that suggest a category
+const CATEGORY_KEYWORDS: [CredentialCategory, string[]][] = [
+  ['finance', ['finance', 'bank', 'money', 'credit', 'card', 'invest', 'tax', 'crypto', 'insurance']],
+  ['work', ['work', 'business', 'office', 'job', 'company', 'corporate', 'client']],
+  ['social', ['social', 'facebook', 'twitter', 'instagram', 'forum', 'chat', 'community']],
+  ['shopping', ['shopping', 'shop', 'store', 'retail', 'ecommerce']],
+  ['entertainment', ['entertainment', 'game', 'gaming', 'stream', 'media', 'music', 'video', 'movie']],
+];
+
+// Category suggested by folder, group or tag names, or 'other'
+export function mapCategory(labels: string[]): CredentialCategory {
+  const text = labels.join(' ').toLowerCase();
+  const match = CATEGORY_KEYWORDS.find(([, keywords]) => keywords.some((keyword) => text.includes(keyword)));
+  return match ? match[0] : 'other';
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url.includes('://') ? url : `https://${url}`).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+// Timestamp from a date string or number, if it is valid
+function toTimestamp(value: unknown, unit: 'ms' | 's' = 'ms'): number | undefined {
+  const time = typeof value === 'number' ? value * (unit === 's' ? 1000 : 1) : typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isFinite(time) && time > 0 ? time : undefined;
+}
+
+// Exports don't always hold strings where they should
+function text(value: unknown): string {
+  return typeof value === 'string' ? value : typeof value === 'number' ? String(value) : '';
+}
+
+// Turn an entry into a credential, or return why it can't be imported
+function toCredential(entry: ImportedEntry): Credential | string {
+  const username = text(entry.username).trim();
+  const password = text(entry.password);
+  const url = text(entry.url).trim() || undefined;
+  if (!username && !password) return 'No username or password';
+
+  const name = text(entry.name).trim() || (url && hostnameOf(url)) || username;
+  const now = Date.now();
+  return {
+    id: generateId(),
+    name,
+    username,
+    password,
+    url,
+    notes: text(entry.notes).trim() || undefined,
+    category: entry.category ?? mapCategory((entry.labels ?? []).map(text)),
+    createdAt: entry.createdAt ?? entry.updatedAt ?? now,
+    updatedAt: entry.updatedAt ?? entry.createdAt ?? now,
+    favorite: entry.favorite ?? false,
+  };
+}
+
+// Convert entries, collecting the ones that fail as issues
+function collect(entries: { location: string; entry: ImportedEntry | string }[]): ImportResult {
+  const result: ImportResult = { credentials: [], issues: [] };
+  for (const { location, entry } of entries) {
+    const credential = typeof entry === 'string' ? entry : toCredential(entry);
+    if (typeof credential === 'string') result.issues.push({ location, reason: credential });
+    else result.credentials.push(credential);
+  }
+  return result;
+}
+
+// Parts of a Bitwarden JSON export that are imported
+interface BitwardenExport {
+  encrypted?: boolean;
+  folders?: { id: string; name?: string }[];
+  items?: {
+    type?: number;
+    name?: string;
+    notes?: string | null;
+    favorite?: boolean;
+    folderId?: string | null;
+    creationDate?: string;
+    revisionDate?: string;
+    login?: {
+      username?: string | null;
+      password?: string | null;
+      uris?: { uri?: string | null }[] | null;
+    } | null;
+  }[];
+}
+
+// Parts of the export.data JSON of a 1PUX archive that are imported
+interface OnePuxExport {
+  accounts?: {
+    vaults?: {
+      attrs?: { name?: string };
+      items?: {
+        categoryUuid?: string;
+        state?: string;
+        favIndex?: number;
+        createdAt?: number;
+        updatedAt?: number;
+        overview?: { title?: string; url?: string; urls?: { url?: string }[]; tags?: string[] };
+        details?: {
+          loginFields?: { designation?: string; value?: string }[];
+          notesPlain?: string;
+          password?: string;
+        };
+      }[];
+    }[];
+  }[];
+}
+
+// Parse JSON whose shape is checked as it is read
+function parseJson<T>(text: string): T {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ImportError('The file is not valid JSON');
+  }
+}
+
+function parseBitwarden(text: string): ImportResult {
+  const data = parseJson<BitwardenExport>(text);
+  if (data.encrypted) {
+    throw new ImportError('Encrypted Bitwarden exports are not supported. Export as unencrypted JSON instead.');
+  }
+  if (!Array.isArray(data.items)) throw new ImportError('This is not a Bitwarden JSON export');
+
+  const folders = new Map<string, string>(
+    (Array.isArray(data.folders) ? data.folders : []).map((folder) => [folder.id, String(folder.name ?? '')])
+  );
+  return collect(
+    data.items.map((item, index) => {
+      const location = item?.name ? String(item.name) : `Item ${index + 1}`;
+      // 1 is a login; notes, cards and identities have no credentials to import
+      if (item?.type !== 1 || !item.login) return { location, entry: 'Not a login item' };
+      const uri = Array.isArray(item.login.uris) ? item.login.uris.find((u) => u?.uri)?.uri : undefined;
+      return {
+        location,
+        entry: {
+          name: item.name,
+          username: item.login.username ?? '',
+          password: item.login.password ?? '',
+          url: uri,
+          notes: item.notes ?? undefined,
+          labels: [folders.get(item.folderId) ?? ''],
+          favorite: !!item.favorite,
+          createdAt: toTimestamp(item.creationDate),
+          updatedAt: toTimestamp(item.revisionDate),
+        },
+      };
+    })
+  );
+}
+
+// 1PUX is a zip archive holding the export as JSON in export.data
+function parse1Pux(bytes: Uint8Array): ImportResult {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes, { filter: (file) => file.name === 'export.data' });
+  } catch {
+    throw new ImportError('The file is not a 1Password 1PUX export');
+  }
+  if (!files['export.data']) throw new ImportError('The file is not a 1Password 1PUX export');
+
+  const data = parseJson<OnePuxExport>(decodeText(files['export.data']));
+  const entries: { location: string; entry: ImportedEntry | string }[] = [];
+  for (const account of data.accounts ?? []) {
+    for (const vault of account.vaults ?? []) {
+      for (const item of vault.items ?? []) {
+        const overview = item.overview ?? {};
+        const details = item.details ?? {};
+        const location = overview.title ? String(overview.title) : `Item ${entries.length + 1}`;
+        // 001 is a login and 005 a password; other categories hold no login
+        if (item.categoryUuid !== '001' && item.categoryUuid !== '005') {
+          entries.push({ location, entry: 'Not a login item' });
+          continue;
+        }
+        if (item.state === 'archived') {
+          entries.push({ location, entry: 'Archived item' });
+          continue;
+        }
+        const fields = Array.isArray(details.loginFields) ? details.loginFields : [];
+        const field = (designation: string) => fields.find((f) => f.designation === designation)?.value;
+        entries.push({
+          location,
+          entry: {
+            name: overview.title,
+            username: field('username') ?? '',
+            password: field('password') ?? details.password ?? '',
+            url: overview.url || overview.urls?.[0]?.url,
+            notes: details.notesPlain,
+            labels: [...(overview.tags ?? []), vault.attrs?.name ?? ''],
+            favorite: !!item.favIndex,
+            createdAt: toTimestamp(item.createdAt, 's'),
+            updatedAt: toTimestamp(item.updatedAt, 's'),
+          },
+        });
+      }
+    }
+  }
+  return collect(entries);
+}
+
+// Columns of a CSV export, by lower-case header name
+interface CsvColumns {
+  name?: string[];
+  username: string[];
+  password: string[];
+  url?: string[];
+  notes?: string[];
+  labels?: string[];
+  favorite?: string[];
+  createdAt?: string[];
+  updatedAt?: string[];
+  // Skip rows for which this returns a reason
+  skip?: (row: Record<string, string>) => string | null;
+  // Unit of numeric timestamps
+  timeUnit?: 'ms' | 's';
+}
+
+// Columns of the all-fields CSV export
+const GENERIC_CSV_COLUMNS: CsvColumns = {
+  name: ['name'],
+  username: ['username'],
+  password: ['password'],
+  url: ['url'],
+  notes: ['notes'],
+  labels: ['category'],
+  favorite: ['favorite'],
+  createdAt: ['created'],
+  updatedAt: ['updated'],
+};
+
+const CSV_COLUMNS: Record<Exclude<ImportFormat, 'bitwarden-json' | '1password-1pux' | 'keepass-xml' | 'keepass-kdbx' | 'securevault-export'>, CsvColumns> = {
+  '1password-csv': {
+    name: ['title'],
+    username: ['username'],
+    password: ['password'],
+    url: ['url', 'website'],
+    notes: ['notes', 'notesplain'],
+    labels: ['tags'],
+    favorite: ['favorite'],
+    skip: (row) => (row.archived === 'true' ? 'Archived item' : null),
+  },
+  'lastpass-csv': {
+    name: ['name'],
+    username: ['username'],
+    password: ['password'],
+    url: ['url'],
+    notes: ['extra'],
+    labels: ['grouping'],
+    favorite: ['fav'],
+    // LastPass stores secure notes with this placeholder URL
+    skip: (row) => (row.url === 'http://sn' ? 'Secure note, not a login' : null),
+  },
+  'securevault-csv': GENERIC_CSV_COLUMNS,
+  'chrome-csv': {
+    name: ['name'],
+    username: ['username'],
+    password: ['password'],
+    url: ['url'],
+    notes: ['note'],
+  },
+  'firefox-csv': {
+    username: ['username'],
+    password: ['password'],
+    url: ['url'],
+    createdAt: ['timecreated'],
+  },
+  'safari-csv': {
+    name: ['title'],
+    username: ['username'],
+    password: ['password'],
+    url: ['url'],
+    notes: ['notes'],
+  },
+};
+
+// Timestamp from a CSV cell holding a number or a date
+function csvTimestamp(value: string | undefined, unit?: 'ms' | 's'): number | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  return /^\d+$/.test(trimmed) ? toTimestamp(Number(trimmed), unit) : toTimestamp(trimmed);
+}
+
+function parseCsvExport(text: string, columns: CsvColumns): ImportResult {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new ImportError('The file is empty');
+
+  const headerNames = header.map((name) => name.trim().toLowerCase());
+  const indexOf = (names?: string[]) => (names ?? []).map((name) => headerNames.indexOf(name)).find((i) => i !== -1);
+  if (indexOf(columns.password) === undefined) {
+    throw new ImportError('The file has no password column. Check that the right format is selected.');
+  }
+
+  return collect(
+    rows.map((values, index) => {
+      // The header is row 1
+      const location = `Row ${index + 2}`;
+      if (values.length !== header.length) {
+        return { location, entry: `Expected ${header.length} columns but found ${values.length}` };
+      }
+      const row = Object.fromEntries(headerNames.map((name, i) => [name, values[i]]));
+      const value = (names?: string[]) => {
+        const i = indexOf(names);
+        return i === undefined ? undefined : values[i];
+      };
+      const skipReason = columns.skip?.(row);
+      if (skipReason) return { location, entry: skipReason };
+
+      const favorite = value(columns.favorite)?.trim().toLowerCase();
+      return {
+        location,
+        entry: {
+          name: value(columns.name),
+          username: value(columns.username),
+          password: value(columns.password),
+          url: value(columns.url),
+          notes: value(columns.notes),
+          labels: (value(columns.labels) ?? '').split(/[,;/]/),
+          favorite: favorite === '1' || favorite === 'true',
+          createdAt: csvTimestamp(value(columns.createdAt), columns.timeUnit),
+          updatedAt: csvTimestamp(value(columns.updatedAt), columns.timeUnit),
+        },
+      };
+    })
+  );
+}
+
+function parseKeePassXml(text: string): ImportResult {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const root = doc.querySelector('KeePassFile > Root');
+  if (doc.querySelector('parsererror') || !root) throw new ImportError('This is not a KeePass 2 XML export');
+
+  const recycleBin = doc.querySelector('KeePassFile > Meta > RecycleBinUUID')?.textContent ?? '';
+  const child = (element: Element, tag: string) =>
+    Array.from(element.children).find((e) => e.tagName === tag)?.textContent ?? undefined;
+  const entries: { location: string; entry: ImportedEntry | string }[] = [];
+
+  const visit = (group: Element, path: string[]) => {
+    if (recycleBin && child(group, 'UUID') === recycleBin) return;
+    const groupPath = [...path, child(group, 'Name') ?? ''];
+
+    for (const element of Array.from(group.children)) {
+      if (element.tagName === 'Group') {
+        visit(element, groupPath);
+      } else if (element.tagName === 'Entry') {
+        const strings = new Map<string, string>();
+        for (const field of Array.from(element.children).filter((e) => e.tagName === 'String')) {
+          strings.set(child(field, 'Key') ?? '', child(field, 'Value') ?? '');
+        }
+        const times = Array.from(element.children).find((e) => e.tagName === 'Times');
+        const title = strings.get('Title');
+        entries.push({
+          location: title || `Entry ${entries.length + 1}`,
+          entry: {
+            name: title,
+            username: strings.get('UserName'),
+            password: strings.get('Password'),
+            url: strings.get('URL'),
+            notes: strings.get('Notes'),
+            // The top-level group is the database itself
+            labels: [...groupPath.slice(1), ...(child(element, 'Tags') ?? '').split(/[,;]/)],
+            createdAt: times ? toTimestamp(child(times, 'CreationTime')) : undefined,
+            updatedAt: times ? toTimestamp(child(times, 'LastModificationTime')) : undefined,
+          },
+        });
+      }
+    }
+  };
+  for (const group of Array.from(root.children).filter((e) => e.tagName === 'Group')) {
+    visit(group, []);
+  }
+  return collect(entries);
+}
+
+// Formats that are encrypted and need a password to be read
+export function needsImportKey(format: ImportFormat): boolean {
+  return format === 'keepass-kdbx' || format === 'securevault-export';
+}
+
+async function parseKdbx(bytes: Uint8Array, key: KdbxKey): Promise<ImportResult> {
+  let entries;
+  try {
+    entries = await readKdbx(bytes, key);
+  } catch (error) {
+    throw new ImportError(error instanceof KdbxFileError ? error.message : 'The KeePass database could not be read');
+  }
+  return collect(
+    entries.map((entry, index) => ({
+      location: entry.title || `Entry ${index + 1}`,
+      entry: {
+        name: entry.title,
+        username: entry.username,
+        password: entry.password,
+        url: entry.url,
+        notes: entry.notes,
+        labels: [...entry.groups, ...entry.tags],
+        favorite: entry.tags.some((tag) => tag.toLowerCase() === FAVORITE_TAG.toLowerCase()),
+        createdAt: entry.createdAt,
+        updatedAt: entry.updatedAt,
+      },
+    }))
+  );
+}
+
+// Exports made by this app and encrypted with a password of their own
+async function parseEncryptedExport(text: string, password: string): Promise<ImportResult> {
+  let decrypted;
+  try {
+    decrypted = await decryptExport(text, password);
+  } catch (error) {
+    if (error instanceof UnsupportedFormatError) throw new ImportError(error.message);
+    throw new ImportError('This is not a SecureVault encrypted export');
+  }
+  if (!decrypted) throw new ImportError('Invalid password');
+
+  switch (decrypted.format) {
+    case 'bitwarden-json':
+      return parseBitwarden(decrypted.contents);
+    case 'generic-csv':
+      return parseCsvExport(decrypted.contents, GENERIC_CSV_COLUMNS);
+    case 'chrome-csv':
+      return parseCsvExport(decrypted.contents, CSV_COLUMNS['chrome-csv']);
+  }
+}
+
+// Parse an export file into credentials. Throws ImportError if the file can't be read
+// in the given format; entries that can't be imported are reported as issues. Encrypted
+// formats need the key of the file.
+export async function parseImport(format: ImportFormat, bytes: Uint8Array, key?: KdbxKey): Promise<ImportResult> {
+  try {
+    switch (format) {
+      case 'keepass-kdbx':
+        return await parseKdbx(bytes, key ?? { password: '' });
+      case 'securevault-export':
+        return await parseEncryptedExport(decodeText(bytes), key?.password ?? '');
+      case 'bitwarden-json':
+        return parseBitwarden(decodeText(bytes));
+      case '1password-1pux':
+        return parse1Pux(bytes);
+      case 'keepass-xml':
+        return parseKeePassXml(decodeText(bytes));
+      default:
+        return parseCsvExport(decodeText(bytes), CSV_COLUMNS[format]);
+    }
+  } catch (error) {
+    if (error instanceof ImportError) throw error;
+    // Data of an unexpected shape
+    throw new ImportError(`The file is not a valid ${IMPORT_FORMATS[format].label} export`);
+  }
+}
+
+// Guess the format of an export from its file name and contents
+export function detectImportFormat(fileName: string, bytes: Uint8Array): ImportFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.1pux')) return '1password-1pux';
+  if (name.endsWith('.xml')) return 'keepass-xml';
+  if (name.endsWith('.kdbx')) return 'keepass-kdbx';
+  if (name.endsWith(ENCRYPTED_EXPORT_EXTENSION)) return 'securevault-export';
+  if (name.endsWith('.json')) return 'bitwarden-json';
+
+  const header = decodeText(bytes.subarray(0, 1024)).split(/\r?\n/)[0].toLowerCase().replace(/"/g, '');
+  const columns = header.split(',').map((column) => column.trim());
+  const has = (...names: string[]) => names.every((n) => columns.includes(n));
+  // SecureVault's own export also has Chrome's columns, so it is checked first
+  if (has('name', 'password', 'category', 'favorite')) return 'securevault-csv';
+  if (has('grouping', 'extra')) return 'lastpass-csv';
+  if (has('httprealm', 'formactionorigin')) return 'firefox-csv';
+  if (has('title', 'otpauth', 'favorite')) return '1password-csv';
+  if (has('title', 'url', 'username', 'password')) return 'safari-csv';
+  if (has('name', 'url', 'username', 'password')) return 'chrome-csv';
+  return null;
+}
+
+// Credential fields a column of any CSV file can be mapped to
+export type MappedField = 'name' | 'username' | 'password' | 'url' | 'notes' | 'category';
+
+export const MAPPED_FIELDS: Record<MappedField, string> = {
+  name: 'Name',
+  username: 'Username',
+  password: 'Password',
+  url: 'URL',
+  notes: 'Notes',
+  category: 'Category',
+};
+
+// Header names guessed for each field, compared without case, spaces or punctuation
+const FIELD_ALIASES: Record<MappedField, string[]> = {
+  name: ['name', 'title', 'account', 'service', 'system', 'application', 'app'],
+  username: ['username', 'user', 'login', 'loginname', 'userid', 'email', 'emailaddress', 'accountname'],
+  password: ['password', 'pass', 'passwd', 'pwd', 'secret', 'passphrase'],
+  url: ['url', 'website', 'site', 'uri', 'address', 'host', 'hostname', 'loginurl', 'link'],
+  notes: ['notes', 'note', 'comment', 'comments', 'remarks', 'description', 'extra'],
+  category: ['category', 'type', 'group', 'folder', 'grouping', 'tags'],
+};
+
+export interface CsvOptions {
+  delimiter: CsvDelimiter;
+  quote: CsvQuote;
+  encoding: TextEncoding;
+  // Whether the first row names the columns
+  hasHeader: boolean;
+}
+
+// A CSV file read with the given options
+export interface CsvTable {
+  options: CsvOptions;
+  // Column names from the header, or "Column 1", "Column 2"... without one
+  columns: string[];
+  rows: string[][];
+}
+
+// Column index for each mapped field
+export type ColumnMapping = Partial<Record<MappedField, number>>;
+
+// Everything needed to turn the rows of a CSV file into credentials
+export interface CsvMapping {
+  table: CsvTable;
+  columns: ColumnMapping;
+  // Category for each distinct value of the category column
+  categories: Record<string, CredentialCategory>;
+}
+
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Map columns whose header names match a field; each column is used at most once
+export function guessColumnMapping(header: string[]): ColumnMapping {
+  const names = header.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  for (const field of Object.keys(FIELD_ALIASES) as MappedField[]) {
+    const used = new Set(Object.values(mapping));
+    const index = FIELD_ALIASES[field].map((alias) => names.indexOf(alias)).find((i) => i !== -1 && !used.has(i));
+    if (index !== undefined) mapping[field] = index;
+  }
+  return mapping;
+}
+
+// Read a CSV file, detecting the options that aren't given. The first row is taken as
+// a header if any of its names match a field.
+export function readCsvTable(bytes: Uint8Array, options: Partial<CsvOptions> = {}): CsvTable {
+  const encoding = options.encoding ?? detectEncoding(bytes);
+  const text = decodeText(bytes, encoding);
+  const delimiter = options.delimiter ?? detectDelimiter(text, options.quote);
+  const quote = options.quote ?? detectQuote(text, delimiter);
+  const rows = parseCsv(text, delimiter, quote);
+  if (rows.length === 0) throw new ImportError('The file is empty');
+
+  const hasHeader = options.hasHeader ?? Object.keys(guessColumnMapping(rows[0])).length > 0;
+  const width = hasHeader ? rows[0].length : rows.reduce((max, row) => Math.max(max, row.length), 0);
+  return {
+    options: { delimiter, quote, encoding, hasHeader },
+    columns: hasHeader
+      ? rows[0].map((name, i) => name.trim() || `Column ${i + 1}`)
+      : Array.from({ length: width }, (_, i) => `Column ${i + 1}`),
+    rows: hasHeader ? rows.slice(1) : rows,
+  };
+}
+
+// Distinct non-empty values of the category column
+export function categoryValues(table: CsvTable, columns: ColumnMapping): string[] {
+  const index = columns.category;
+  if (index === undefined) return [];
+  return [...new Set(table.rows.map((row) => (row[index] ?? '').trim()).filter(Boolean))].sort();
+}
+
+// Use the given columns, keeping earlier category choices for values still present and
+// guessing the rest from the value itself
+export function mapCsvColumns(
+  table: CsvTable,
+  columns: ColumnMapping,
+  categories: Record<string, CredentialCategory> = {}
+): CsvMapping {
+  return {
+    table,
+    columns,
+    categories: Object.fromEntries(categoryValues(table, columns).map((value) => [value, categories[value] ?? mapCategory([value])])),
+  };
+}
+
+// Read a CSV file and guess its column mapping
+export function createCsvMapping(bytes: Uint8Array, options?: Partial<CsvOptions>): CsvMapping {
+  const table = readCsvTable(bytes, options);
+  return mapCsvColumns(table, table.options.hasHeader ? guessColumnMapping(table.columns) : {});
+}
+
+// Turn the rows of a mapped CSV file into credentials, validating each row
+export function importCsvRows({ table, columns, categories }: CsvMapping): ImportResult {
+  if (columns.password === undefined && columns.username === undefined) {
+    throw new ImportError('Choose the column holding the password or the username');
+  }
+
+  const value = (row: string[], field: MappedField) => {
+    const index = columns[field];
+    return index === undefined ? undefined : row[index];
+  };
+  return collect(
+    table.rows.map((row, index) => {
+      const location = `Row ${index + (table.options.hasHeader ? 2 : 1)}`;
+      if (row.length !== table.columns.length) {
+        return { location, entry: `Expected ${table.columns.length} columns but found ${row.length}` };
+      }
+      const url = value(row, 'url')?.trim();
+      if (url && !hostnameOf(url)) return { location, entry: `Invalid URL "${url}"` };
+
+      const category = value(row, 'category')?.trim();
+      return {
+        location,
+        entry: {
+          name: value(row, 'name'),
+          username: value(row, 'username'),
+          password: value(row, 'password'),
+          url,
+          notes: value(row, 'notes'),
+          category: category ? (categories[category] ?? mapCategory([category])) : 'other',
+        },
+      };
+    })
+  );
+}
@@ -0,0 +1,155 @@
+// Reading and writing KeePass databases (KDBX 4) for KeePassXC and friends
+import * as kdbxweb from 'kdbxweb';
+import { argon2d, argon2id } from 'hash-wasm';
+import { Credential, CATEGORY_INFO } from './vault';
+
+// KDF settings of exported databases, matching the KeePassXC defaults
+const EXPORT_ARGON2_MEMORY = 64 * 1024 * 1024;
+const EXPORT_ARGON2_ITERATIONS = 10;
+const EXPORT_ARGON2_PARALLELISM = 2;
+
+// Tag marking favorites, which KeePass has no field for
+export const FAVORITE_TAG = 'Favorite';
+
+export const KDBX_FILE_EXTENSION = '.kdbx';
+
+// Password and optional key file opening a database
+export interface KdbxKey {
+  password: string;
+  keyFile?: Uint8Array;
+}
+
+// An entry read from a database, with the names of the groups it is in
+export interface KdbxEntryData {
+  title: string;
+  username: string;
+  password: string;
+  url: string;
+  notes: string;
+  groups: string[];
+  tags: string[];
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+// Thrown when a database can't be opened, with a message to show the user
+export class KdbxFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KdbxFileError';
+  }
+}
+
+// kdbxweb leaves Argon2 to the app; use the bundled WASM implementation like the vault KDF
+kdbxweb.CryptoEngine.setArgon2Impl(async (password, salt, memory, iterations, length, parallelism, type, version) => {
+  if (version !== 0x13) {
+    throw new kdbxweb.KdbxError(kdbxweb.Consts.ErrorCodes.Unsupported, 'Argon2 version 1.0 is not supported');
+  }
+  const hash = await (type === kdbxweb.CryptoEngine.Argon2TypeArgon2id ? argon2id : argon2d)({
+    password: new Uint8Array(password),
+    salt: new Uint8Array(salt),
+    iterations,
+    parallelism,
+    // kdbxweb passes the memory in KiB, as hash-wasm expects
+    memorySize: memory,
+    hashLength: length,
+    outputType: 'binary',
+  });
+  return hash.slice().buffer;
+});
+
+function toCredentials(key: KdbxKey): kdbxweb.KdbxCredentials {
+  return new kdbxweb.KdbxCredentials(
+    key.password ? kdbxweb.ProtectedValue.fromString(key.password) : null,
+    key.keyFile ?? null
+  );
+}
+
+function fieldText(entry: kdbxweb.KdbxEntry, name: string): string {
+  const value = entry.fields.get(name);
+  return value instanceof kdbxweb.ProtectedValue ? value.getText() : (value ?? '');
+}
+
+// Open a KDBX 3.1 or 4 database and read its entries, leaving out the recycle bin
+export async function readKdbx(bytes: Uint8Array, key: KdbxKey): Promise<KdbxEntryData[]> {
+  let db: kdbxweb.Kdbx;
+  try {
+    db = await kdbxweb.Kdbx.load(bytes.slice().buffer, toCredentials(key));
+  } catch (error) {
+    const code = error instanceof kdbxweb.KdbxError ? error.code : '';
+    switch (code) {
+      case kdbxweb.Consts.ErrorCodes.InvalidKey:
+        throw new KdbxFileError(key.keyFile ? 'Invalid password or key file' : 'Invalid password');
+      case kdbxweb.Consts.ErrorCodes.BadSignature:
+        throw new KdbxFileError('This is not a KeePass database');
+      case kdbxweb.Consts.ErrorCodes.InvalidVersion:
+      case kdbxweb.Consts.ErrorCodes.Unsupported:
+        throw new KdbxFileError('This KeePass database uses a format or setting that is not supported');
+      default:
+        throw new KdbxFileError('The KeePass database could not be read');
+    }
+  }
+
+  const recycleBin = db.meta.recycleBinEnabled ? db.meta.recycleBinUuid : undefined;
+  const entries: KdbxEntryData[] = [];
+  const visit = (group: kdbxweb.KdbxGroup, path: string[]) => {
+    if (recycleBin && group.uuid.equals(recycleBin)) return;
+    for (const entry of group.entries) {
+      entries.push({
+        title: fieldText(entry, 'Title'),
+        username: fieldText(entry, 'UserName'),
+        password: fieldText(entry, 'Password'),
+        url: fieldText(entry, 'URL'),
+        notes: fieldText(entry, 'Notes'),
+        groups: path,
+        tags: entry.tags,
+        createdAt: entry.times.creationTime?.getTime(),
+        updatedAt: entry.times.lastModTime?.getTime(),
+      });
+    }
+    for (const child of group.groups) visit(child, [...path, child.name ?? '']);
+  };
+  // The top-level group is the database itself
+  for (const root of db.groups) visit(root, []);
+  return entries;
+}
+
+// Write credentials to a new KDBX 4 database using Argon2id and AES-256, with a group
+// per category
+export async function writeKdbx(credentials: Credential[], name: string, key: KdbxKey): Promise<Uint8Array> {
+  const db = kdbxweb.Kdbx.create(toCredentials(key), name);
+  db.setVersion(4);
+  db.setKdf(kdbxweb.Consts.KdfId.Argon2id);
+  const kdfParameters = db.header.kdfParameters!;
+  kdfParameters.set('M', kdbxweb.VarDictionary.ValueType.UInt64, kdbxweb.Int64.from(EXPORT_ARGON2_MEMORY));
+  kdfParameters.set('I', kdbxweb.VarDictionary.ValueType.UInt64, kdbxweb.Int64.from(EXPORT_ARGON2_ITERATIONS));
+  kdfParameters.set('P', kdbxweb.VarDictionary.ValueType.UInt32, EXPORT_ARGON2_PARALLELISM);
+
+  const root = db.getDefaultGroup();
+  const groups = new Map<string, kdbxweb.KdbxGroup>();
+  for (const credential of credentials) {
+    const label = CATEGORY_INFO[credential.category].label;
+    let group = groups.get(label);
+    if (!group) {
+      group = db.createGroup(root, label);
+      groups.set(label, group);
+    }
+
+    const entry = db.createEntry(group);
+    entry.fields.set('Title', credential.name);
+    entry.fields.set('UserName', credential.username);
+    entry.fields.set('Password', kdbxweb.ProtectedValue.fromString(credential.password));
+    entry.fields.set('URL', credential.url ?? '');
+    entry.fields.set('Notes', credential.notes ?? '');
+    if (credential.favorite) entry.tags = [FAVORITE_TAG];
+    entry.times.creationTime = new Date(credential.createdAt);
+    entry.times.lastModTime = new Date(credential.updatedAt);
+  }
+
+  return new Uint8Array(await db.save());
+}
+
+// Key file in the KeePass XML format (version 2.0), for a database that needs one
+export async function createKeyFile(): Promise<Uint8Array> {
+  return kdbxweb.KdbxCredentials.createRandomKeyFile(2);
+}
@@ -0,0 +1,186 @@
+// Merging credentials from another vault, or from another tab, into the unlocked one
+import { Credential, generateId } from './vault';
+
+// A credential from the other vault that matches one here but differs from it
+export interface MergeConflict {
+  mine: Credential;
+  theirs: Credential;
+  // Matched by credential id, or by name, username and URL
+  matchedBy: 'id' | 'entry';
+}
+
+export type ConflictResolution = 'mine' | 'theirs' | 'both';
+
+export interface MergePlan {
+  // Credentials that match nothing here
+  added: Credential[];
+  conflicts: MergeConflict[];
+  // Credentials identical to one here
+  unchanged: number;
+}
+
+export interface MergeSummary {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+// Fields compared to decide whether two matching credentials differ
+const COMPARED_FIELDS = ['name', 'username', 'password', 'url', 'notes', 'category', 'favorite'] as const;
+
+function normalizeUrl(url?: string): string {
+  return (url ?? '').trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '');
+}
+
+// Key identifying the same account across vaults whose credential ids differ
+function entryKey(credential: Credential): string {
+  return [credential.name.trim().toLowerCase(), credential.username.trim().toLowerCase(), normalizeUrl(credential.url)].join('\n');
+}
+
+export function isSameContent(a: Credential, b: Credential): boolean {
+  return COMPARED_FIELDS.every((field) => (a[field] ?? '') === (b[field] ?? ''));
+}
+
+// Match the other vault's credentials against these, first by id and then by name,
+// username and URL. Each credential here is matched at most once, and id matches
+// take precedence.
+export function planMerge(mine: Credential[], theirs: Credential[]): MergePlan {
+  const byId = new Map(mine.map((credential) => [credential.id, credential]));
+  const byEntry = new Map<string, Credential>();
+  for (const credential of mine) {
+    if (!byEntry.has(entryKey(credential))) byEntry.set(entryKey(credential), credential);
+  }
+
+  const idMatches = new Map<Credential, Credential>();
+  for (const credential of theirs) {
+    const match = byId.get(credential.id);
+    if (match) idMatches.set(credential, match);
+  }
+  const matched = new Set(idMatches.values());
+
+  const plan: MergePlan = { added: [], conflicts: [], unchanged: 0 };
+  for (const credential of theirs) {
+    let match = idMatches.get(credential);
+    let matchedBy: MergeConflict['matchedBy'] = 'id';
+    if (!match) {
+      match = byEntry.get(entryKey(credential));
+      matchedBy = 'entry';
+      if (!match || matched.has(match)) {
+        plan.added.push(credential);
+        continue;
+      }
+      matched.add(match);
+    }
+
+    if (isSameContent(match, credential)) plan.unchanged++;
+    else plan.conflicts.push({ mine: match, theirs: credential, matchedBy });
+  }
+  return plan;
+}
+
+// Apply a merge plan. Conflicts without a resolution keep this vault's version.
+// Resolutions are keyed by the id of the other vault's credential.
+export function applyMerge(
+  mine: Credential[],
+  plan: MergePlan,
+  resolutions: Record<string, ConflictResolution>
+): { credentials: Credential[]; summary: MergeSummary } {
+  const replaced = new Map<string, Credential>();
+  const ids = new Set(mine.map((credential) => credential.id));
+  const added: Credential[] = [];
+  const summary: MergeSummary = { added: 0, updated: 0, skipped: plan.unchanged };
+
+  const add = (credential: Credential) => {
+    // Never reuse an id already in this vault
+    const id = ids.has(credential.id) ? generateId() : credential.id;
+    ids.add(id);
+    added.push({ ...credential, id });
+    summary.added++;
+  };
+
+  plan.added.forEach(add);
+  for (const { mine: current, theirs } of plan.conflicts) {
+    switch (resolutions[theirs.id] ?? 'mine') {
+      case 'mine':
+        summary.skipped++;
+        break;
+      case 'theirs':
+        // Update the credential in place, keeping its id and creation time
+        replaced.set(current.id, { ...theirs, id: current.id, createdAt: current.createdAt });
+        summary.updated++;
+        break;
+      case 'both':
+        add(theirs);
+        break;
+    }
+  }
+
+  return {
+    credentials: [...mine.map((credential) => replaced.get(credential.id) ?? credential), ...added],
+    summary,
+  };
+}
+
+// Take the fields only one side changed from base into both versions of a credential
+// changed on both sides. The two returned versions differ only in fields both sides
+// changed differently.
+function mergeFields(
+  base: Credential | undefined,
+  mine: Credential,
+  theirs: Credential
+): { mine: Credential; theirs: Credential } {
+  const merged = { mine: { ...mine }, theirs: { ...theirs } };
+  for (const field of COMPARED_FIELDS) {
+    const mineChanged = !base || (mine[field] ?? '') !== (base[field] ?? '');
+    const theirsChanged = !base || (theirs[field] ?? '') !== (base[field] ?? '');
+    if (mineChanged && !theirsChanged) Object.assign(merged.theirs, { [field]: mine[field] });
+    else if (theirsChanged && !mineChanged) Object.assign(merged.mine, { [field]: theirs[field] });
+  }
+  return merged;
+}
+
+// Three-way merge of two changed copies of the same credentials against the version both
+// started from: this tab's edits and another tab's save, or this device and the sync
+// server. A change on one side is taken as it is, an edit wins over a deletion, and a
+// credential changed on both sides is merged field by field. Credentials with a field
+// both sides changed differently keep this side's version and are returned as conflicts.
+export function mergeThreeWay(
+  base: Credential[],
+  mine: Credential[],
+  theirs: Credential[]
+): { credentials: Credential[]; plan: MergePlan } {
+  const baseById = new Map(base.map((credential) => [credential.id, credential]));
+  const mineIds = new Set(mine.map((credential) => credential.id));
+  const theirsById = new Map(theirs.map((credential) => [credential.id, credential]));
+  const changed = (credential: Credential) => {
+    const original = baseById.get(credential.id);
+    return !original || !isSameContent(credential, original);
+  };
+
+  const credentials: Credential[] = [];
+  const plan: MergePlan = { added: [], conflicts: [], unchanged: 0 };
+  for (const credential of mine) {
+    const other = theirsById.get(credential.id);
+    if (!other) {
+      // Deleted there: keep it only if it was added or edited here
+      if (changed(credential)) credentials.push(credential);
+    } else if (!changed(credential)) {
+      credentials.push(other);
+    } else if (!changed(other)) {
+      credentials.push(credential);
+    } else {
+      const merged = mergeFields(baseById.get(credential.id), credential, other);
+      if (isSameContent(merged.mine, merged.theirs)) {
+        credentials.push({ ...merged.mine, updatedAt: Math.max(credential.updatedAt, other.updatedAt) });
+      } else {
+        credentials.push(merged.mine);
+        plan.conflicts.push({ ...merged, matchedBy: 'id' });
+      }
+    }
+  }
+  for (const credential of theirs) {
+    // Deleted here: keep it only if it was added or edited there
+    if (!mineIds.has(credential.id) && changed(credential)) credentials.push(credential);
+  }
+  return { credentials, plan };
+}
@@ -0,0 +1,58 @@
+// Ordered migrations of the decrypted vault data layout
+import { UnsupportedFormatError } from './crypto';
+
+// Decrypted vault data before it is known to match the current layout
+export type RawVaultData = Record<string, unknown> & { version?: unknown };
+
+export interface VaultMigration {
+  // Layout version this migration upgrades; it produces from + 1
+  from: number;
+  description: string;
+  migrate: (data: RawVaultData) => RawVaultData;
+}
+
+// Append a migration whenever the layout of the vault data or of a credential changes.
+// Released migrations must never be edited or reordered; vaults already upgraded by
+// them would not be migrated again.
+export const VAULT_MIGRATIONS: VaultMigration[] = [];
+
+// Version of the decrypted vault data layout written by this app. The encryption
+// format is versioned separately by the ciphertext envelope (ENVELOPE_VERSION).
+export const VAULT_VERSION = 1 + VAULT_MIGRATIONS.length;
+
+export interface MigrationResult {
+  data: RawVaultData;
+  // Version the data was stored with; equal to the current version if nothing ran
+  fromVersion: number;
+}
+
+// Upgrade decrypted vault data to the current layout, one version at a time.
+// Throws UnsupportedFormatError for data saved by a newer version of the app.
+export function migrateVaultData(
+  data: RawVaultData,
+  migrations: VaultMigration[] = VAULT_MIGRATIONS
+): MigrationResult {
+  const currentVersion = 1 + migrations.length;
+  // Vaults have recorded version 1 since the first release, but older data is treated the same
+  const fromVersion = data.version === undefined ? 1 : data.version;
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new UnsupportedFormatError(`Unsupported vault data version: ${String(fromVersion)}`);
+  }
+  if (fromVersion > currentVersion) {
+    throw new UnsupportedFormatError(
+      `This vault was saved by a newer version of SecureVault (data version ${fromVersion}). ` +
+        'Update the app to open it.'
+    );
+  }
+
+  let migrated = data;
+  let version = fromVersion;
+  for (const migration of migrations.slice(fromVersion - 1)) {
+    if (migration.from !== version) {
+      throw new Error(`Vault migration from version ${migration.from} is out of order`);
+    }
+    version = migration.from + 1;
+    migrated = { ...migration.migrate(migrated), version };
+  }
+  return { data: migrated, fromVersion };
+}
@@ -0,0 +1,52 @@
+// Service worker registration and updates of the installed app
+
+// Written by the build; see src/service-worker.js
+const SERVICE_WORKER_URL = '/sw.js';
+// How often an open app checks for a new version
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// A new version of the app, ready to be used
+export interface AppUpdate {
+  // Switch to the new version and reload this tab
+  apply(): void;
+}
+
+// Register the service worker that keeps the app available offline. Only production
+// builds have one. onUpdate is called when a new version has been downloaded, or when
+// another tab already switched to it; this tab is only reloaded through apply().
+export async function registerServiceWorker(onUpdate: (update: AppUpdate) => void): Promise<void> {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  // The first service worker takes over a page that had none; that is not an update
+  const hadController = navigator.serviceWorker.controller !== null;
+  let applying = false;
+
+  const offer = (worker: ServiceWorker) =>
+    onUpdate({
+      apply: () => {
+        applying = true;
+        worker.postMessage({ type: 'SKIP_WAITING' });
+      },
+    });
+
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (!hadController) return;
+    if (applying) window.location.reload();
+    else onUpdate({ apply: () => window.location.reload() });
+  });
+
+  if (registration.waiting && hadController) offer(registration.waiting);
+  registration.addEventListener('updatefound', () => {
+    const worker = registration.installing;
+    worker?.addEventListener('statechange', () => {
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) offer(worker);
+    });
+  });
+
+  setInterval(() => {
+    registration.update().catch(() => {
+      // Offline; try again later
+    });
+  }, UPDATE_CHECK_INTERVAL_MS);
+}
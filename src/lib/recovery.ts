@@ -0,0 +1,307 @@
+// Secret key, recovery code and trustee share encoding for offline recovery
+
+import QRCode from 'qrcode';
+import { SecretShare, splitSecret, combineShares } from './shamir';
+import { downloadFile } from './download';
+
+// Crockford base32: no I, L, O or U so codes survive being copied by hand
+const BASE32_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const SECRET_KEY_PREFIX = 'SV1';
+const SECRET_KEY_BYTES = 16;
+const RECOVERY_CODE_BYTES = 20;
+const TRUSTEE_SHARE_PREFIX = 'SVS1';
+// Length of the vault id prefix printed on each share to catch shares from another vault
+const VAULT_TAG_LENGTH = 8;
+
+export interface EmergencyKit {
+  vaultId: string;
+  secretKey: string;
+  recoveryCode: string;
+  createdAt: number;
+}
+
+// Shares of a trustee recovery key, each formatted as
+// SVS1-<vault tag>-<threshold>-<index>-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX
+export interface TrusteeShareSet {
+  vaultId: string;
+  threshold: number;
+  shares: string[];
+  createdAt: number;
+}
+
+export interface TrusteeShare {
+  vaultTag: string;
+  threshold: number;
+  share: SecretShare;
+}
+
+// Encode bytes as base32 characters
+function encodeBase32(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+// Decode base32 characters, tolerating the usual look-alike substitutions
+function decodeBase32(input: string, byteLength: number): Uint8Array | null {
+  const normalized = input.toUpperCase().replace(/O/g, '0').replace(/[IL]/g, '1');
+  const bytes = new Uint8Array(byteLength);
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+
+  for (const char of normalized) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) return null;
+    buffer = ((buffer << 5) | value) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      if (index < byteLength) bytes[index] = (buffer >> (bits - 8)) & 0xff;
+      index++;
+      bits -= 8;
+    }
+  }
+
+  return index === byteLength ? bytes : null;
+}
+
+// Split a string into dash-separated groups
+function group(value: string, size: number): string[] {
+  const groups: string[] = [];
+  for (let i = 0; i < value.length; i += size) {
+    groups.push(value.slice(i, i + size));
+  }
+  return groups;
+}
+
+// Strip separators and whitespace from user input
+function compact(input: string): string {
+  return input.toUpperCase().replace(/[^0-9A-Z]/g, '');
+}
+
+// Generate a formatted account secret key, e.g. SV1-XXXXXX-XXXXX-XXXXX-XXXXX-XXXXX
+export function generateSecretKey(): string {
+  const encoded = encodeBase32(crypto.getRandomValues(new Uint8Array(SECRET_KEY_BYTES)));
+  return [SECRET_KEY_PREFIX, encoded.slice(0, 6), ...group(encoded.slice(6), 5)].join('-');
+}
+
+// Parse a secret key as typed or scanned by the user, returning null if it is malformed
+export function parseSecretKey(input: string): Uint8Array | null {
+  const value = compact(input);
+  if (!value.startsWith(SECRET_KEY_PREFIX)) return null;
+  return decodeBase32(value.slice(SECRET_KEY_PREFIX.length), SECRET_KEY_BYTES);
+}
+
+// Generate a formatted recovery code of eight four-character groups
+export function generateRecoveryCode(): string {
+  const encoded = encodeBase32(crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_BYTES)));
+  return group(encoded, 4).join('-');
+}
+
+// Canonical form of a recovery code used for key derivation
+export function normalizeRecoveryCode(input: string): string | null {
+  const value = compact(input).replace(/O/g, '0').replace(/[IL]/g, '1');
+  return decodeBase32(value, RECOVERY_CODE_BYTES) ? value : null;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Render a printable, self-contained Emergency Kit page
+export async function buildEmergencyKitHtml(kit: EmergencyKit): Promise<string> {
+  const qrPayload = JSON.stringify({ app: 'securevault', vault: kit.vaultId, secretKey: kit.secretKey });
+  const qrSvg = await QRCode.toString(qrPayload, { type: 'svg', errorCorrectionLevel: 'M', margin: 1 });
+  const created = new Date(kit.createdAt).toLocaleString();
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>SecureVault Emergency Kit</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 720px; margin: 40px auto; color: #111; }
+  h1 { margin-bottom: 4px; }
+  .muted { color: #555; font-size: 14px; }
+  .field { border: 1px solid #ccc; border-radius: 8px; padding: 12px 16px; margin: 16px 0; }
+  .label { font-size: 12px; text-transform: uppercase; letter-spacing: 0.05em; color: #555; }
+  .value { font-family: ui-monospace, monospace; font-size: 20px; margin-top: 6px; word-break: break-all; }
+  .blank { height: 32px; border-bottom: 1px solid #999; }
+  .qr { width: 180px; float: right; margin-left: 16px; }
+  .warning { background: #fff4e5; border: 1px solid #f5a623; border-radius: 8px; padding: 12px 16px; font-size: 14px; }
+</style>
+</head>
+<body>
+  <div class="qr">${qrSvg}</div>
+  <h1>SecureVault Emergency Kit</h1>
+  <p class="muted">Created ${escapeHtml(created)} &middot; Vault ${escapeHtml(kit.vaultId)}</p>
+  <div class="field">
+    <div class="label">Secret Key</div>
+    <div class="value">${escapeHtml(kit.secretKey)}</div>
+  </div>
+  <div class="field">
+    <div class="label">Master Password</div>
+    <div class="blank"></div>
+  </div>
+  <div class="field">
+    <div class="label">Recovery Code</div>
+    <div class="value">${escapeHtml(kit.recoveryCode)}</div>
+  </div>
+  <p class="warning">
+    Your Secret Key is needed together with your master password to open this vault on a new
+    device or from a backup. The Recovery Code lets you set a new master password if you forget it.
+    Print this page or store it somewhere safe and offline. Anyone holding this kit can reset your master password.
+  </p>
+</body>
+</html>`;
+}
+
+// Open an HTML page in a new window and show the print dialog (or save as PDF)
+function printHtml(html: string): void {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return;
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
+
+// Save the Emergency Kit as an HTML file
+export async function downloadEmergencyKit(kit: EmergencyKit): Promise<void> {
+  downloadFile(await buildEmergencyKitHtml(kit), 'SecureVault-Emergency-Kit.html', 'text/html');
+}
+
+// Print the Emergency Kit
+export async function printEmergencyKit(kit: EmergencyKit): Promise<void> {
+  printHtml(await buildEmergencyKitHtml(kit));
+}
+
+// Short vault id prefix printed on trustee shares
+export function vaultTag(vaultId: string): string {
+  return compact(vaultId).slice(0, VAULT_TAG_LENGTH);
+}
+
+// Generate a new trustee recovery key and split it so any threshold of the shares rebuild it.
+// Returns the recovery key in the same canonical form as a recovery code.
+export function generateTrusteeShares(
+  vaultId: string,
+  shareCount: number,
+  threshold: number
+): { recoveryKey: string; shareSet: TrusteeShareSet } {
+  const secret = crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_BYTES));
+  const recoveryKey = encodeBase32(secret);
+  const shares = splitSecret(secret, shareCount, threshold).map(({ x, y }) =>
+    [TRUSTEE_SHARE_PREFIX, vaultTag(vaultId), threshold, x, ...group(encodeBase32(y), 4)].join('-')
+  );
+  secret.fill(0);
+
+  return { recoveryKey, shareSet: { vaultId, threshold, shares, createdAt: Date.now() } };
+}
+
+// Parse a trustee share as typed or scanned, returning null if it is malformed
+export function parseTrusteeShare(input: string): TrusteeShare | null {
+  const parts = input.toUpperCase().replace(/\s/g, '').split('-').filter(Boolean);
+  if (parts.length < 5 || parts[0] !== TRUSTEE_SHARE_PREFIX) return null;
+
+  const [, tag, thresholdPart, indexPart, ...data] = parts;
+  const threshold = Number(thresholdPart);
+  const x = Number(indexPart);
+  if (!/^[0-9A-F]+$/.test(tag) || tag.length !== VAULT_TAG_LENGTH) return null;
+  if (!Number.isInteger(threshold) || threshold < 2) return null;
+  if (!Number.isInteger(x) || x < 1 || x > 255) return null;
+
+  const y = decodeBase32(data.join(''), RECOVERY_CODE_BYTES);
+  return y ? { vaultTag: tag, threshold, share: { x, y } } : null;
+}
+
+// Rebuild the trustee recovery key from parsed shares. The result is only correct when
+// enough shares from the same split are given; a wrong key simply fails to unwrap the vault.
+export function combineTrusteeShares(shares: TrusteeShare[]): string {
+  const secret = combineShares(shares.map((s) => s.share));
+  const recoveryKey = encodeBase32(secret);
+  secret.fill(0);
+  return recoveryKey;
+}
+
+// Render one printable page per trustee share, or only the share at index
+export async function buildTrusteeSharesHtml(shareSet: TrusteeShareSet, index?: number): Promise<string> {
+  const created = new Date(shareSet.createdAt).toLocaleString();
+  const indexes = index === undefined ? shareSet.shares.map((_, i) => i) : [index];
+
+  const pages = await Promise.all(
+    indexes.map(async (i) => {
+      const share = shareSet.shares[i];
+      const qrSvg = await QRCode.toString(share, { type: 'svg', errorCorrectionLevel: 'M', margin: 1 });
+      return `<section class="page">
+  <div class="qr">${qrSvg}</div>
+  <h1>SecureVault Trustee Share ${i + 1} of ${shareSet.shares.length}</h1>
+  <p class="muted">Created ${escapeHtml(created)} &middot; Vault ${escapeHtml(shareSet.vaultId)}</p>
+  <div class="field">
+    <div class="label">Trustee</div>
+    <div class="blank"></div>
+  </div>
+  <div class="field">
+    <div class="label">Share</div>
+    <div class="value">${escapeHtml(share)}</div>
+  </div>
+  <p class="warning">
+    Any ${shareSet.threshold} of the ${shareSet.shares.length} trustees can together reset the master password
+    of this vault. A single share reveals nothing on its own. Keep it somewhere safe and offline, and only
+    hand it over for an agreed recovery.
+  </p>
+</section>`;
+    })
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>SecureVault Trustee Shares</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 720px; margin: 40px auto; color: #111; }
+  h1 { margin-bottom: 4px; }
+  .page { page-break-after: always; }
+  .page:last-child { page-break-after: auto; }
+  .muted { color: #555; font-size: 14px; }
+  .field { border: 1px solid #ccc; border-radius: 8px; padding: 12px 16px; margin: 16px 0; }
+  .label { font-size: 12px; text-transform: uppercase; letter-spacing: 0.05em; color: #555; }
+  .value { font-family: ui-monospace, monospace; font-size: 18px; margin-top: 6px; word-break: break-all; }
+  .blank { height: 32px; border-bottom: 1px solid #999; }
+  .qr { width: 180px; float: right; margin-left: 16px; }
+  .warning { clear: both; background: #fff4e5; border: 1px solid #f5a623; border-radius: 8px; padding: 12px 16px; font-size: 14px; }
+</style>
+</head>
+<body>
+${pages.join('\n')}
+</body>
+</html>`;
+}
+
+// Save a single trustee share as an HTML file to hand to that trustee
+export async function downloadTrusteeShare(shareSet: TrusteeShareSet, index: number): Promise<void> {
+  downloadFile(
+    await buildTrusteeSharesHtml(shareSet, index),
+    `SecureVault-Trustee-Share-${index + 1}.html`,
+    'text/html'
+  );
+}
+
+// Print every trustee share, one per page
+export async function printTrusteeShares(shareSet: TrusteeShareSet): Promise<void> {
+  printHtml(await buildTrusteeSharesHtml(shareSet));
+}
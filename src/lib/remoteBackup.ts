@@ -0,0 +1,455 @@
+// Scheduled backups of a vault to a WebDAV share or an S3-compatible bucket. Each backup
+// is an exportVault() copy, so it stays encrypted and restores like a backup file. The
+// target's address and sign-in are a credential in the vault itself, which means backups
+// only run while the vault is unlocked.
+import {
+  Credential,
+  RemoteBackupSettings,
+  BackupRetention,
+  BACKUP_FILE_EXTENSION,
+  exportVault,
+  fingerprintExport,
+  readRemoteBackupSettings,
+  writeRemoteBackupSettings,
+  generateId,
+} from './vault';
+import { bufferToHex, sha256Hex } from './crypto';
+
+export type BackupTargetType = RemoteBackupSettings['type'];
+
+// A backup stored on the target
+export interface RemoteBackup {
+  // File name on the target
+  name: string;
+  createdAt: number;
+  size: number;
+}
+
+// How backups are stored on a target. Names never contain a slash.
+export interface BackupTransport {
+  // Files whose name starts with prefix
+  list(prefix: string): Promise<{ name: string; size: number }[]>;
+  put(name: string, data: string): Promise<void>;
+  get(name: string): Promise<string>;
+  delete(name: string): Promise<void>;
+}
+
+export interface RemoteBackupResult {
+  uploaded: boolean;
+  // Older backups removed by the retention rules
+  deleted: number;
+}
+
+// Thrown when the target can't be reached, refuses a request or isn't set up properly
+export class RemoteBackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RemoteBackupError';
+  }
+}
+
+export const BACKUP_TARGETS: Record<BackupTargetType, { label: string; placeholder: string }> = {
+  webdav: { label: 'WebDAV', placeholder: 'https://cloud.example.com/remote.php/dav/files/me/Backups' },
+  s3: { label: 'S3-compatible', placeholder: 'https://s3.example.com/bucket/folder' },
+};
+
+export const BACKUP_INTERVALS = [
+  { hours: 1, label: 'Every hour' },
+  { hours: 6, label: 'Every 6 hours' },
+  { hours: 24, label: 'Every day' },
+  { hours: 168, label: 'Every week' },
+];
+
+export const DEFAULT_RETENTION: BackupRetention = { keepLast: 7, keepDaily: 14, keepWeekly: 8, keepMonthly: 12 };
+
+const DEFAULT_S3_REGION = 'us-east-1';
+
+function backupPrefix(vaultId: string): string {
+  return `securevault-${vaultId}-`;
+}
+
+// e.g. securevault-<vault id>-20261019T120000Z.securevault
+function backupName(vaultId: string, date: Date): string {
+  const stamp = date.toISOString().replace(/\.\d+/, '').replace(/[-:]/g, '');
+  return `${backupPrefix(vaultId)}${stamp}${BACKUP_FILE_EXTENSION}`;
+}
+
+// When a backup was made, from its name. Null for files that aren't backups of the vault.
+function parseBackupName(vaultId: string, name: string): number | null {
+  const prefix = backupPrefix(vaultId);
+  if (!name.startsWith(prefix) || !name.endsWith(BACKUP_FILE_EXTENSION)) return null;
+  const stamp = name.slice(prefix.length, -BACKUP_FILE_EXTENSION.length);
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(stamp);
+  if (!match) return null;
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes, seconds);
+}
+
+// Monday of the week a date is in (UTC)
+function weekOf(date: Date): string {
+  const monday = new Date(date);
+  monday.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+}
+
+// Backups the retention rules no longer keep, newest first. The newest backup is always
+// kept. Days, weeks and months are counted in UTC.
+export function selectExpiredBackups(backups: RemoteBackup[], retention: BackupRetention): RemoteBackup[] {
+  const newestFirst = [...backups].sort((a, b) => b.createdAt - a.createdAt);
+  const kept = new Set(newestFirst.slice(0, Math.max(1, retention.keepLast)));
+
+  // Keep the newest backup of each of the latest count periods that have one
+  const keepPeriods = (count: number, periodOf: (date: Date) => string) => {
+    const periods = new Set<string>();
+    for (const backup of newestFirst) {
+      if (periods.size >= count) break;
+      const period = periodOf(new Date(backup.createdAt));
+      if (periods.has(period)) continue;
+      periods.add(period);
+      kept.add(backup);
+    }
+  };
+  keepPeriods(retention.keepDaily, (date) => date.toISOString().slice(0, 10));
+  keepPeriods(retention.keepWeekly, weekOf);
+  keepPeriods(retention.keepMonthly, (date) => date.toISOString().slice(0, 7));
+
+  return newestFirst.filter((backup) => !kept.has(backup));
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data));
+}
+
+async function request(url: string, init: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch {
+    throw new RemoteBackupError(
+      'The backup target could not be reached. Check its address, and that it allows requests from this app (CORS).'
+    );
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new RemoteBackupError('The backup target rejected the sign-in');
+  }
+  return response;
+}
+
+function checkResponse(response: Response): void {
+  if (!response.ok) throw new RemoteBackupError(`The backup target returned an error (${response.status})`);
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new RemoteBackupError('The backup target returned an invalid file list');
+  }
+  return doc;
+}
+
+const PROPFIND_BODY =
+  '<?xml version="1.0" encoding="utf-8"?><d:propfind xmlns:d="DAV:"><d:prop><d:getcontentlength/></d:prop></d:propfind>';
+
+// Transport for a folder on a WebDAV server, e.g. Nextcloud, signed in with Basic auth
+export function createWebDavTransport(folderUrl: string, username: string, password: string): BackupTransport {
+  const base = folderUrl.endsWith('/') ? folderUrl : `${folderUrl}/`;
+  const fileUrl = (name: string) => new URL(encodeURIComponent(name), base).href;
+  const credentials = String.fromCharCode(...new TextEncoder().encode(`${username}:${password}`));
+  const headers = { Authorization: `Basic ${btoa(credentials)}` };
+
+  return {
+    async list(prefix) {
+      const response = await request(base, {
+        method: 'PROPFIND',
+        headers: { ...headers, Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+        body: PROPFIND_BODY,
+      });
+      if (response.status === 404) throw new RemoteBackupError('The backup folder does not exist on the WebDAV server');
+      checkResponse(response);
+
+      const doc = parseXml(await response.text());
+      return Array.from(doc.getElementsByTagNameNS('DAV:', 'response'))
+        .map((entry) => {
+          const href = entry.getElementsByTagNameNS('DAV:', 'href')[0]?.textContent ?? '';
+          const length = entry.getElementsByTagNameNS('DAV:', 'getcontentlength')[0]?.textContent;
+          let name: string;
+          try {
+            name = decodeURIComponent(href.replace(/\/+$/, '').split('/').pop() ?? '');
+          } catch {
+            name = '';
+          }
+          return { name, size: Number(length ?? 0) || 0 };
+        })
+        .filter((file) => file.name.startsWith(prefix));
+    },
+    async put(name, data) {
+      const response = await request(fileUrl(name), {
+        method: 'PUT',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: data,
+      });
+      if (response.status === 404 || response.status === 409) {
+        throw new RemoteBackupError('The backup folder does not exist on the WebDAV server');
+      }
+      checkResponse(response);
+    },
+    async get(name) {
+      const response = await request(fileUrl(name), { method: 'GET', headers, cache: 'no-store' });
+      checkResponse(response);
+      return response.text();
+    },
+    async delete(name) {
+      const response = await request(fileUrl(name), { method: 'DELETE', headers });
+      if (response.status !== 404) checkResponse(response);
+    },
+  };
+}
+
+// S3 escapes everything in paths and queries except unreserved characters
+function s3Encode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// Authorization header of an S3 request signed with AWS Signature Version 4. Signs the
+// host, payload hash and date headers; date is in the basic format, e.g. 20261019T120000Z.
+async function signS3Request(
+  request: { method: string; host: string; path: string; queryString: string; payloadHash: string; date: string },
+  key: { accessKeyId: string; secretAccessKey: string; region: string }
+): Promise<string> {
+  const day = request.date.slice(0, 8);
+  const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    request.queryString,
+    `host:${request.host}\nx-amz-content-sha256:${request.payloadHash}\nx-amz-date:${request.date}\n`,
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+  const scope = `${day}/${key.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', request.date, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  let signingKey = await hmac(new TextEncoder().encode(`AWS4${key.secretAccessKey}`), day);
+  for (const part of [key.region, 's3', 'aws4_request']) signingKey = await hmac(signingKey, part);
+  const signature = bufferToHex(await hmac(signingKey, stringToSign));
+  return `AWS4-HMAC-SHA256 Credential=${key.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+// Transport for an S3-compatible bucket, e.g. MinIO, addressed by path
+// (https://host/bucket/folder) and signed with AWS Signature Version 4
+export function createS3Transport(
+  bucketUrl: string,
+  accessKeyId: string,
+  secretAccessKey: string,
+  region = DEFAULT_S3_REGION
+): BackupTransport {
+  const url = new URL(bucketUrl);
+  // The pathname is percent-encoded; send() encodes the segments again for S3
+  let segments: string[];
+  try {
+    segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    throw new RemoteBackupError('The S3 address is not valid');
+  }
+  const [bucket, ...folders] = segments;
+  if (!bucket) throw new RemoteBackupError('The S3 address must include the bucket, e.g. https://s3.example.com/bucket');
+  const folder = folders.map((part) => `${part}/`).join('');
+
+  const send = async (
+    method: string,
+    key: string,
+    query: Record<string, string> = {},
+    body?: string
+  ): Promise<Response> => {
+    const path = `/${[bucket, ...(key ? key.split('/') : [])].map(s3Encode).join('/')}`;
+    const queryString = Object.keys(query)
+      .sort()
+      .map((name) => `${s3Encode(name)}=${s3Encode(query[name])}`)
+      .join('&');
+    const payloadHash = await sha256Hex(body ?? '');
+    const date = new Date().toISOString().replace(/\.\d+/, '').replace(/[-:]/g, '');
+    const authorization = await signS3Request(
+      { method, host: url.host, path, queryString, payloadHash, date },
+      { accessKeyId, secretAccessKey, region }
+    );
+
+    return request(`${url.origin}${path}${queryString ? `?${queryString}` : ''}`, {
+      method,
+      headers: {
+        Authorization: authorization,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': date,
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      },
+      body,
+      cache: 'no-store',
+    });
+  };
+
+  return {
+    async list(prefix) {
+      const files: { name: string; size: number }[] = [];
+      let continuationToken: string | null = null;
+      do {
+        const response = await send('GET', '', {
+          'list-type': '2',
+          prefix: folder + prefix,
+          ...(continuationToken && { 'continuation-token': continuationToken }),
+        });
+        if (response.status === 404) throw new RemoteBackupError('The bucket does not exist on the S3 server');
+        checkResponse(response);
+
+        const doc = parseXml(await response.text());
+        for (const entry of Array.from(doc.getElementsByTagName('Contents'))) {
+          const key = entry.getElementsByTagName('Key')[0]?.textContent ?? '';
+          const size = entry.getElementsByTagName('Size')[0]?.textContent;
+          files.push({ name: key.slice(folder.length), size: Number(size ?? 0) || 0 });
+        }
+        const truncated = doc.getElementsByTagName('IsTruncated')[0]?.textContent === 'true';
+        continuationToken = truncated ? doc.getElementsByTagName('NextContinuationToken')[0]?.textContent ?? null : null;
+      } while (continuationToken);
+      return files;
+    },
+    async put(name, data) {
+      checkResponse(await send('PUT', folder + name, {}, data));
+    },
+    async get(name) {
+      const response = await send('GET', folder + name);
+      checkResponse(response);
+      return response.text();
+    },
+    async delete(name) {
+      const response = await send('DELETE', folder + name);
+      if (response.status !== 404) checkResponse(response);
+    },
+  };
+}
+
+// Vault item holding the address and sign-in of a backup target
+export function createTargetCredential(
+  type: BackupTargetType,
+  target: { url: string; username: string; password: string }
+): Credential {
+  const now = Date.now();
+  return {
+    id: generateId(),
+    name: `${BACKUP_TARGETS[type].label} backups (${new URL(target.url).host})`,
+    username: target.username,
+    password: target.password,
+    url: target.url,
+    notes: 'Used by SecureVault to store remote backups of this vault.',
+    category: 'other',
+    createdAt: now,
+    updatedAt: now,
+    favorite: false,
+  };
+}
+
+// Check the address of a target before it is used. Returns an error message or null.
+export function validateTargetUrl(address: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(address);
+  } catch {
+    return 'Enter the full address of the backup target, e.g. https://cloud.example.com/backups';
+  }
+  if (url.protocol !== 'https:' && url.hostname !== 'localhost' && url.hostname !== '127.0.0.1') {
+    return 'The backup target must use HTTPS';
+  }
+  return null;
+}
+
+// Transport for the target of a vault's remote backups, signed in with its vault item
+export function createBackupTransport(settings: RemoteBackupSettings, credentials: Credential[]): BackupTransport {
+  const target = credentials.find((credential) => credential.id === settings.credentialId);
+  if (!target) throw new RemoteBackupError('The sign-in for the backup target is no longer in this vault');
+  const urlError = validateTargetUrl(target.url ?? '');
+  if (urlError) throw new RemoteBackupError(`${target.name}: ${urlError}`);
+
+  return settings.type === 's3'
+    ? createS3Transport(target.url!, target.username, target.password, settings.region || undefined)
+    : createWebDavTransport(target.url!, target.username, target.password);
+}
+
+// Record a backup check in the settings as they are now, unless backups were turned off
+// in the meantime
+async function recordBackup(vaultId: string, update: Partial<RemoteBackupSettings>): Promise<void> {
+  const settings = await readRemoteBackupSettings(vaultId);
+  if (settings) await writeRemoteBackupSettings(vaultId, { ...settings, ...update });
+}
+
+async function requireSettings(vaultId: string): Promise<RemoteBackupSettings> {
+  const settings = await readRemoteBackupSettings(vaultId);
+  if (!settings) throw new RemoteBackupError('Remote backups are not set up for this vault');
+  return settings;
+}
+
+// Backups of a vault on its target, newest first
+export async function listRemoteBackups(
+  vaultId: string,
+  credentials: Credential[],
+  transport?: BackupTransport
+): Promise<RemoteBackup[]> {
+  const target = transport ?? createBackupTransport(await requireSettings(vaultId), credentials);
+  const backups: RemoteBackup[] = [];
+  for (const file of await target.list(backupPrefix(vaultId))) {
+    const createdAt = parseBackupName(vaultId, file.name);
+    if (createdAt !== null) backups.push({ ...file, createdAt });
+  }
+  return backups.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Download a backup to restore it like a backup file
+export async function downloadRemoteBackup(vaultId: string, credentials: Credential[], name: string): Promise<string> {
+  if (parseBackupName(vaultId, name) === null) throw new RemoteBackupError('This is not a backup of the vault');
+  return createBackupTransport(await requireSettings(vaultId), credentials).get(name);
+}
+
+// Back up the vault if a backup is due, or now if force is set, then delete the backups
+// the retention rules no longer keep. A vault unchanged since the last backup isn't
+// uploaded again unless forced. Returns null if no backup was due.
+export async function runRemoteBackup(
+  vaultId: string,
+  credentials: Credential[],
+  options: { force?: boolean; transport?: BackupTransport } = {}
+): Promise<RemoteBackupResult | null> {
+  const settings = await requireSettings(vaultId);
+  const now = Date.now();
+  if (!options.force && settings.lastBackupAt && now < settings.lastBackupAt + settings.intervalHours * 3600000) {
+    return null;
+  }
+
+  const data = await exportVault(vaultId);
+  if (!data) throw new RemoteBackupError('This vault has nothing to back up yet');
+  const digest = await fingerprintExport(data);
+  if (!options.force && digest === settings.lastBackupDigest) {
+    await recordBackup(vaultId, { lastBackupAt: now });
+    return { uploaded: false, deleted: 0 };
+  }
+
+  const transport = options.transport ?? createBackupTransport(settings, credentials);
+  const name = backupName(vaultId, new Date(now));
+  await transport.put(name, data);
+  await recordBackup(vaultId, { lastBackupAt: now, lastBackupDigest: digest });
+
+  const expired = selectExpiredBackups(await listRemoteBackups(vaultId, credentials, transport), settings.retention);
+  for (const backup of expired) {
+    // Never delete the backup just made, even if the target's file list lags behind
+    if (backup.name !== name) await transport.delete(backup.name);
+  }
+  return { uploaded: true, deleted: expired.filter((backup) => backup.name !== name).length };
+}
+
+// Start backing up a vault. The first backup is made the next time backups are checked.
+export async function enableRemoteBackups(
+  vaultId: string,
+  settings: Pick<RemoteBackupSettings, 'type' | 'credentialId' | 'region' | 'intervalHours' | 'retention'>
+): Promise<void> {
+  await writeRemoteBackupSettings(vaultId, { ...settings, lastBackupAt: null, lastBackupDigest: null });
+}
+
+// Stop backing up; existing backups and the target's vault item are left alone
+export async function disableRemoteBackups(vaultId: string): Promise<void> {
+  await writeRemoteBackupSettings(vaultId, null);
+}
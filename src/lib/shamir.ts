@@ -0,0 +1,106 @@
+// Shamir secret sharing over GF(256), byte by byte
+
+export interface SecretShare {
+  // Evaluation point, 1-255
+  x: number;
+  y: Uint8Array;
+}
+
+export const MAX_SHARES = 255;
+
+// Exponent and logarithm tables for GF(256) with the AES polynomial x^8 + x^4 + x^3 + x + 1
+// and generator 3. EXP is doubled in length so products never need a modulo.
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+(function buildTables() {
+  let value = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = value;
+    LOG[value] = i;
+    // Multiply by the generator: value * 3 = value * 2 ^ value
+    const doubled = (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+    value = doubled ^ value;
+  }
+  for (let i = 255; i < EXP.length; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+function mul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero');
+  if (a === 0) return 0;
+  return EXP[LOG[a] + 255 - LOG[b]];
+}
+
+// Split a secret into shareCount shares, any threshold of which can rebuild it
+export function splitSecret(secret: Uint8Array, shareCount: number, threshold: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || threshold < 2) {
+    throw new Error('Threshold must be at least 2');
+  }
+  if (!Number.isInteger(shareCount) || shareCount < threshold || shareCount > MAX_SHARES) {
+    throw new Error(`Share count must be between the threshold and ${MAX_SHARES}`);
+  }
+
+  const shares: SecretShare[] = [];
+  for (let x = 1; x <= shareCount; x++) {
+    shares.push({ x, y: new Uint8Array(secret.length) });
+  }
+
+  // One random polynomial of degree threshold - 1 per byte, with the secret byte as constant term
+  const coefficients = new Uint8Array(threshold);
+  for (let i = 0; i < secret.length; i++) {
+    crypto.getRandomValues(coefficients);
+    coefficients[0] = secret[i];
+
+    for (const share of shares) {
+      // Horner's method
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) {
+        y = mul(y, share.x) ^ coefficients[c];
+      }
+      share.y[i] = y;
+    }
+  }
+  coefficients.fill(0);
+
+  return shares;
+}
+
+// Rebuild a secret from at least threshold shares using Lagrange interpolation at x = 0.
+// Too few or mismatched shares produce a wrong secret rather than an error.
+export function combineShares(shares: SecretShare[]): Uint8Array {
+  if (shares.length < 2) throw new Error('At least two shares are required');
+
+  const length = shares[0].y.length;
+  const points = new Set<number>();
+  for (const share of shares) {
+    if (share.x < 1 || share.x > MAX_SHARES || points.has(share.x)) {
+      throw new Error('Shares must have distinct indexes');
+    }
+    if (share.y.length !== length) throw new Error('Shares have different lengths');
+    points.add(share.x);
+  }
+
+  const secret = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    let value = 0;
+    for (const share of shares) {
+      // Lagrange basis polynomial for this share evaluated at 0 (subtraction is XOR)
+      let basis = 1;
+      for (const other of shares) {
+        if (other.x === share.x) continue;
+        basis = mul(basis, div(other.x, other.x ^ share.x));
+      }
+      value ^= mul(share.y[i], basis);
+    }
+    secret[i] = value;
+  }
+
+  return secret;
+}
@@ -0,0 +1,175 @@
+// Pluggable key-value storage for vault records
+
+export interface VaultStorage {
+  // Backend name, e.g. for display or to skip migrating localStorage into itself
+  readonly name: 'memory' | 'localStorage' | 'indexedDB';
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Keys starting with prefix, or every key
+  list(prefix?: string): Promise<string[]>;
+}
+
+const DB_NAME = 'securevault';
+const DB_VERSION = 1;
+const STORE_NAME = 'vault';
+
+function matchPrefix(keys: string[], prefix?: string): string[] {
+  return prefix ? keys.filter((key) => key.startsWith(prefix)) : keys;
+}
+
+// Wrap an IndexedDB request in a promise
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Non-persistent storage for tests
+export function createMemoryStorage(): VaultStorage {
+  const records = new Map<string, string>();
+  return {
+    name: 'memory',
+    async get(key) {
+      return records.get(key) ?? null;
+    },
+    async put(key, value) {
+      records.set(key, value);
+    },
+    async delete(key) {
+      records.delete(key);
+    },
+    async list(prefix) {
+      return matchPrefix([...records.keys()], prefix);
+    },
+  };
+}
+
+// localStorage-backed storage. Limited to a few megabytes and synchronous underneath;
+// used as a fallback where IndexedDB is unavailable and as the source for migration.
+export function createLocalStorageStorage(): VaultStorage {
+  return {
+    name: 'localStorage',
+    async get(key) {
+      return localStorage.getItem(key);
+    },
+    async put(key, value) {
+      localStorage.setItem(key, value);
+    },
+    async delete(key) {
+      localStorage.removeItem(key);
+    },
+    async list(prefix) {
+      const keys: string[] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key !== null) keys.push(key);
+      }
+      return matchPrefix(keys, prefix);
+    },
+  };
+}
+
+// IndexedDB-backed storage with one object store of string records
+export function createIndexedDBStorage(dbName = DB_NAME): VaultStorage {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      dbPromise = promisify(request);
+      // Allow a later call to retry if opening failed
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await open();
+    const transaction = db.transaction(STORE_NAME, mode);
+    // Writes are only durable once the transaction completes
+    const [result] = await Promise.all([
+      promisify(action(transaction.objectStore(STORE_NAME))),
+      new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      }),
+    ]);
+    return result;
+  };
+
+  return {
+    name: 'indexedDB',
+    async get(key) {
+      const value = await run('readonly', (store) => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    async put(key, value) {
+      await run('readwrite', (store) => store.put(value, key));
+    },
+    async delete(key) {
+      await run('readwrite', (store) => store.delete(key));
+    },
+    async list(prefix) {
+      const keys = await run('readonly', (store) => store.getAllKeys());
+      return matchPrefix(keys.map(String), prefix);
+    },
+  };
+}
+
+// View of a storage backend whose keys are all stored under prefix
+export function scopeStorage(base: VaultStorage, prefix: string): VaultStorage {
+  return {
+    name: base.name,
+    get: (key) => base.get(prefix + key),
+    put: (key, value) => base.put(prefix + key, value),
+    delete: (key) => base.delete(prefix + key),
+    async list(subPrefix) {
+      const keys = await base.list(prefix + (subPrefix ?? ''));
+      return keys.map((key) => key.slice(prefix.length));
+    },
+  };
+}
+
+// Copy the given keys from localStorage into target and remove them from localStorage.
+// Keys already present in target are left as they are, so running it again is harmless.
+export async function migrateFromLocalStorage(target: VaultStorage, keys: string[]): Promise<number> {
+  if (target.name === 'localStorage' || typeof localStorage === 'undefined') return 0;
+
+  let migrated = 0;
+  for (const key of keys) {
+    const value = localStorage.getItem(key);
+    if (value === null) continue;
+    if ((await target.get(key)) === null) {
+      await target.put(key, value);
+      migrated++;
+    }
+  }
+  // Only remove the originals once every record has been copied
+  for (const key of keys) {
+    localStorage.removeItem(key);
+  }
+  return migrated;
+}
+
+let activeStorage: VaultStorage | null = null;
+
+// Storage used by the vault: IndexedDB where available, otherwise localStorage
+export function getVaultStorage(): VaultStorage {
+  if (!activeStorage) {
+    activeStorage = typeof indexedDB !== 'undefined' ? createIndexedDBStorage() : createLocalStorageStorage();
+  }
+  return activeStorage;
+}
+
+// Replace the storage backend, e.g. with createMemoryStorage() in tests
+export function setVaultStorage(storage: VaultStorage): void {
+  activeStorage = storage;
+}
@@ -0,0 +1,302 @@
+// End-to-end encrypted sync of a vault through a server that only stores ciphertext
+import {
+  Credential,
+  QuarantinedItem,
+  VaultSession,
+  SyncState,
+  exportVault,
+  importVault,
+  saveVault,
+  readEncryptedVault,
+  decryptVaultCopy,
+  mergeKeyRecord,
+  sealKeyRecord,
+  readSyncState,
+  writeSyncState,
+  generateId,
+} from './vault';
+import { mergeThreeWay, isSameContent, MergeConflict } from './merge';
+
+// The copy of a vault held by the server: an exportVault() backup and the server's
+// revision of it, which goes up by one with every accepted push
+export interface RemoteVault {
+  revision: number;
+  data: string;
+}
+
+export type PushResult = { ok: true; revision: number } | { ok: false };
+
+// How the client talks to a sync server
+export interface SyncTransport {
+  // Null if the server has no copy of the vault
+  pull(vaultId: string): Promise<RemoteVault | null>;
+  // Store a new copy if the server is still at baseRevision (0 for none); otherwise
+  // nothing is stored
+  push(vaultId: string, baseRevision: number, data: string): Promise<PushResult>;
+}
+
+export interface SyncResult {
+  // Credentials after merging in the server's changes
+  credentials: Credential[];
+  pulled: boolean;
+  pushed: boolean;
+  // Credentials changed on both sides; the newer edit won and the other was kept as a copy
+  conflicts: number;
+}
+
+// Thrown when the server can't be reached or refuses a request
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+// A push can lose the race against another device; pull, merge and try again this often
+const MAX_SYNC_ATTEMPTS = 3;
+
+const CONFLICT_SUFFIX = ' (conflicted copy)';
+
+function sameCredentials(a: Credential[], b: Credential[]): boolean {
+  if (a.length !== b.length) return false;
+  const byId = new Map(b.map((credential) => [credential.id, credential]));
+  return a.every((credential) => {
+    const other = byId.get(credential.id);
+    return other !== undefined && isSameContent(credential, other) && credential.updatedAt === other.updatedAt;
+  });
+}
+
+// Settle credentials both sides changed differently without asking: the newer edit wins
+// and the older one is kept as a copy
+function resolveConflicts(credentials: Credential[], conflicts: MergeConflict[]): Credential[] {
+  const winners = new Map<string, Credential>();
+  const copies: Credential[] = [];
+  for (const { mine, theirs } of conflicts) {
+    const newer = theirs.updatedAt > mine.updatedAt ? theirs : mine;
+    const older = newer === mine ? theirs : mine;
+    winners.set(mine.id, { ...newer, updatedAt: Math.max(mine.updatedAt, theirs.updatedAt) });
+    copies.push({ ...older, id: generateId(), name: older.name + CONFLICT_SUFFIX });
+  }
+  return [...credentials.map((credential) => winners.get(credential.id) ?? credential), ...copies];
+}
+
+// Three-way merge of the items that failed validation, told apart by their stored data.
+// An item repaired or discarded on either side stays gone.
+function mergeQuarantine(
+  base: QuarantinedItem[],
+  mine: QuarantinedItem[],
+  theirs: QuarantinedItem[]
+): QuarantinedItem[] {
+  const keyOf = (item: QuarantinedItem) => JSON.stringify(item.data);
+  const baseKeys = new Set(base.map(keyOf));
+  const mineKeys = new Set(mine.map(keyOf));
+  const theirsKeys = new Set(theirs.map(keyOf));
+  return [
+    ...mine.filter((item) => theirsKeys.has(keyOf(item)) || !baseKeys.has(keyOf(item))),
+    ...theirs.filter((item) => !mineKeys.has(keyOf(item)) && !baseKeys.has(keyOf(item))),
+  ];
+}
+
+function sameQuarantine(a: QuarantinedItem[], b: QuarantinedItem[]): boolean {
+  const keys = new Set(b.map((item) => JSON.stringify(item.data)));
+  return a.length === b.length && a.every((item) => keys.has(JSON.stringify(item.data)));
+}
+
+// Encrypted vault, key record and key record seal of the server's copy
+function readRemoteCopy(remote: RemoteVault): { encrypted: string; key: unknown; keySeal: unknown } {
+  const parsed = JSON.parse(remote.data);
+  if (typeof parsed?.encrypted !== 'string') throw new SyncError('The server returned an invalid vault copy');
+  return { encrypted: parsed.encrypted, key: parsed.key, keySeal: parsed.keySeal };
+}
+
+// Pull the server's changes, merge them and push the result. The key record is synced
+// too, so a master password changed on one device opens the vault on all of them; it is
+// sealed with the data key so the server can't swap it. Returns the credentials to show,
+// which are already saved. Throws SyncError if the server can't be used and
+// VaultIntegrityError if its copy belongs to a different vault or was tampered with.
+export async function syncVault(
+  session: VaultSession,
+  credentials: Credential[],
+  transport: SyncTransport
+): Promise<SyncResult> {
+  const result: SyncResult = { credentials, pulled: false, pushed: false, conflicts: 0 };
+
+  for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+    const state = await readSyncState(session.vaultId);
+    if (!state) throw new SyncError('Sync is not set up for this vault');
+
+    const remote = await transport.pull(session.vaultId);
+    if (remote && remote.revision < state.remoteRevision) {
+      throw new SyncError('The server has an older copy of this vault than the last sync. It may have been restored from a backup.');
+    }
+    const copy = remote && readRemoteCopy(remote);
+    // The server is untrusted: its copy has to open with the data key before anything in
+    // it is used
+    const theirs = copy && (await decryptVaultCopy(copy.encrypted, session));
+    // The key record changes with the master password and recovery setup; the newer one wins
+    const newerKey = copy ? await mergeKeyRecord(session, copy.key, copy.keySeal) : 'mine';
+    const remoteChanged = remote !== null && remote.revision !== state.remoteRevision;
+    const localChanged = (await readEncryptedVault(session.vaultId)) !== state.base || newerKey === 'mine';
+
+    if (remoteChanged) {
+      const base = state.base ? await decryptVaultCopy(state.base, session) : null;
+      const merged = mergeThreeWay(base?.credentials ?? [], result.credentials, theirs.credentials);
+      const credentials = resolveConflicts(merged.credentials, merged.plan.conflicts);
+      const quarantine = mergeQuarantine(base?.quarantine ?? [], session.quarantine, theirs.quarantine);
+      result.conflicts += merged.plan.conflicts.length;
+      result.pulled = true;
+
+      if (!sameCredentials(credentials, result.credentials) || !sameQuarantine(quarantine, session.quarantine)) {
+        const previous = session.quarantine;
+        session.quarantine = quarantine;
+        try {
+          // Revisions keep going up across devices so neither copy looks like a rollback
+          await saveVault(credentials, session, { minRevision: theirs.revision });
+        } catch (error) {
+          session.quarantine = previous;
+          throw error;
+        }
+        result.credentials = credentials;
+      }
+      if (
+        sameCredentials(credentials, theirs.credentials) &&
+        sameQuarantine(quarantine, theirs.quarantine) &&
+        newerKey !== 'mine'
+      ) {
+        await writeSyncState(session.vaultId, {
+          ...state,
+          remoteRevision: remote.revision,
+          base: await readEncryptedVault(session.vaultId),
+          lastSyncedAt: Date.now(),
+        });
+        return result;
+      }
+    } else if (!localChanged && remote) {
+      await writeSyncState(session.vaultId, { ...state, lastSyncedAt: Date.now() });
+      return result;
+    }
+
+    const data = await exportVault(session.vaultId);
+    if (!data) return result;
+    const pushed = await transport.push(session.vaultId, remote?.revision ?? 0, await sealKeyRecord(data, session));
+    if (pushed.ok) {
+      await writeSyncState(session.vaultId, {
+        ...state,
+        remoteRevision: pushed.revision,
+        base: await readEncryptedVault(session.vaultId),
+        lastSyncedAt: Date.now(),
+      });
+      result.pushed = true;
+      return result;
+    }
+    // Another device pushed first; merge its copy on the next attempt
+  }
+  throw new SyncError('The vault changed on the server while syncing. Try again.');
+}
+
+// Set up a new device from the server's copy. Returns the id of the vault, which is then
+// unlocked with its master password, or null if it is already on this device.
+export async function downloadSyncedVault(
+  vaultId: string,
+  serverUrl: string,
+  token?: string
+): Promise<string | null> {
+  const transport = createHttpSyncTransport(serverUrl, token);
+  const remote = await transport.pull(vaultId);
+  if (!remote) throw new SyncError('The server has no vault with this sync ID');
+
+  const importedId = await importVault(remote.data);
+  if (!importedId) return null;
+  await writeSyncState(importedId, {
+    serverUrl,
+    token,
+    remoteRevision: remote.revision,
+    base: readRemoteCopy(remote).encrypted,
+    lastSyncedAt: Date.now(),
+  });
+  return importedId;
+}
+
+// Transport for the reference sync server in server/sync-server.js
+export function createHttpSyncTransport(serverUrl: string, token?: string): SyncTransport {
+  const vaultUrl = (vaultId: string) => `${serverUrl.replace(/\/+$/, '')}/v1/vaults/${encodeURIComponent(vaultId)}`;
+
+  const request = async (url: string, init: RequestInit): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+      });
+    } catch {
+      throw new SyncError('The sync server could not be reached');
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new SyncError('The sync server rejected the access token');
+    }
+    return response;
+  };
+
+  return {
+    async pull(vaultId) {
+      const response = await request(vaultUrl(vaultId), { method: 'GET' });
+      if (response.status === 404) return null;
+      if (!response.ok) throw new SyncError(`The sync server returned an error (${response.status})`);
+      return response.json();
+    },
+    async push(vaultId, baseRevision, data) {
+      const response = await request(vaultUrl(vaultId), {
+        method: 'PUT',
+        body: JSON.stringify({ baseRevision, data }),
+      });
+      if (response.status === 409) return { ok: false };
+      if (!response.ok) throw new SyncError(`The sync server returned an error (${response.status})`);
+      const { revision } = await response.json();
+      return { ok: true, revision };
+    },
+  };
+}
+
+// In-process stand-in for the sync server, for tests. Behaves like the reference server.
+export function createMemorySyncServer(): SyncTransport {
+  const vaults = new Map<string, RemoteVault>();
+  return {
+    async pull(vaultId) {
+      const stored = vaults.get(vaultId);
+      return stored ? { ...stored } : null;
+    },
+    async push(vaultId, baseRevision, data) {
+      const current = vaults.get(vaultId);
+      if ((current?.revision ?? 0) !== baseRevision) return { ok: false };
+      const revision = baseRevision + 1;
+      vaults.set(vaultId, { revision, data });
+      return { ok: true, revision };
+    },
+  };
+}
+
+// Transport for the server a vault is set up to sync with
+export async function transportFor(vaultId: string): Promise<SyncTransport | null> {
+  const state = await readSyncState(vaultId);
+  return state ? createHttpSyncTransport(state.serverUrl, state.token) : null;
+}
+
+// Start syncing a vault with a server. The first sync merges this device's vault with
+// any copy already there.
+export async function enableSync(vaultId: string, serverUrl: string, token?: string): Promise<void> {
+  await writeSyncState(vaultId, {
+    serverUrl,
+    token: token || undefined,
+    remoteRevision: 0,
+    base: null,
+    lastSyncedAt: null,
+  });
+}
+
+// Stop syncing; the server's copy is left alone
+export async function disableSync(vaultId: string): Promise<void> {
+  await writeSyncState(vaultId, null);
+}
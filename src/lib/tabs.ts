@@ -0,0 +1,69 @@
+// Messages between browser tabs that have the same vaults open
+
+export type TabMessage =
+  // A vault was saved at this revision
+  | { type: 'saved'; vaultId: string; revision: number }
+  // These vaults were locked, deleted or replaced; tabs that have one open lock it too
+  | { type: 'locked'; vaultIds: string[] };
+
+const CHANNEL_NAME = 'securevault';
+// localStorage record used to pass messages where BroadcastChannel is unavailable
+const MESSAGE_STORAGE_KEY = 'securevault_tab_message';
+
+let channel: BroadcastChannel | null | undefined;
+
+// Shared channel of this tab. A channel never receives its own messages, so a tab
+// isn't notified of its own saves.
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  }
+  return channel;
+}
+
+function isTabMessage(value: unknown): value is TabMessage {
+  if (!value || typeof value !== 'object') return false;
+  const message = value as Partial<Record<string, unknown>>;
+  return (
+    (message.type === 'saved' && typeof message.vaultId === 'string' && typeof message.revision === 'number') ||
+    (message.type === 'locked' && Array.isArray(message.vaultIds))
+  );
+}
+
+// Send a message to every other tab of this app
+export function postTabMessage(message: TabMessage): void {
+  const broadcast = getChannel();
+  if (broadcast) {
+    broadcast.postMessage(message);
+  } else if (typeof localStorage !== 'undefined') {
+    // Other tabs get a storage event for the write; removing the record right away
+    // keeps it out of storage and makes the next identical message a change again
+    localStorage.setItem(MESSAGE_STORAGE_KEY, JSON.stringify(message));
+    localStorage.removeItem(MESSAGE_STORAGE_KEY);
+  }
+}
+
+// Call listener with every message from other tabs. Returns a function that stops listening.
+export function subscribeTabMessages(listener: (message: TabMessage) => void): () => void {
+  const broadcast = getChannel();
+  if (broadcast) {
+    const onMessage = (event: MessageEvent) => {
+      if (isTabMessage(event.data)) listener(event.data);
+    };
+    broadcast.addEventListener('message', onMessage);
+    return () => broadcast.removeEventListener('message', onMessage);
+  }
+
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== MESSAGE_STORAGE_KEY || !event.newValue) return;
+    try {
+      const message: unknown = JSON.parse(event.newValue);
+      if (isTabMessage(message)) listener(message);
+    } catch {
+      // Not a message from this app
+    }
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+}
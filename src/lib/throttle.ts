@@ -0,0 +1,162 @@
+// Persistent throttling of failed unlock attempts, tracked separately for each vault
+
+// Consecutive failures since the last successful unlock
+const UNLOCK_ATTEMPTS_KEY = 'unlock_attempts';
+const UNLOCK_POLICY_KEY = 'unlock_policy';
+// Failures allowed before any delay is enforced
+const FREE_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 60 * 1000;
+
+export const MIN_WIPE_AFTER = 5;
+export const MAX_WIPE_AFTER = 100;
+
+export interface UnlockPolicy {
+  // Erase the vault after this many consecutive failed attempts; null disables it
+  wipeAfter: number | null;
+}
+
+// Failed attempts since the last successful unlock, shown once the vault is opened
+export interface FailedAttemptSummary {
+  count: number;
+  firstAttemptAt: number;
+  lastAttemptAt: number;
+}
+
+// Attempts as stored, while one may still be in progress
+interface StoredAttempts extends FailedAttemptSummary {
+  // When the attempt before the latest one was made, restored if the latest one succeeds
+  previousAttemptAt?: number;
+}
+
+// Thrown when an unlock is attempted before the backoff delay has passed
+export class UnlockThrottledError extends Error {
+  retryAt: number;
+
+  constructor(retryAt: number) {
+    super('Too many failed attempts. Please wait before trying again.');
+    this.name = 'UnlockThrottledError';
+    this.retryAt = retryAt;
+  }
+}
+
+function attemptsKey(vaultId: string): string {
+  return `${UNLOCK_ATTEMPTS_KEY}:${vaultId}`;
+}
+
+function policyKey(vaultId: string): string {
+  return `${UNLOCK_POLICY_KEY}:${vaultId}`;
+}
+
+function readAttempts(vaultId: string): StoredAttempts | null {
+  const stored = localStorage.getItem(attemptsKey(vaultId));
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+}
+
+export function readUnlockPolicy(vaultId: string): UnlockPolicy {
+  const stored = localStorage.getItem(policyKey(vaultId));
+  if (!stored) return { wipeAfter: null };
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return { wipeAfter: null };
+  }
+}
+
+export function writeUnlockPolicy(vaultId: string, policy: UnlockPolicy): void {
+  localStorage.setItem(policyKey(vaultId), JSON.stringify(policy));
+}
+
+// Delay enforced after the given number of consecutive failures, doubling each time
+function backoffDelay(failures: number): number {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_MS);
+}
+
+// Time at which the next attempt is allowed, or 0 if it is allowed now
+export function getUnlockRetryAt(vaultId: string): number {
+  const attempts = readAttempts(vaultId);
+  if (!attempts) return 0;
+
+  const delay = backoffDelay(attempts.count);
+  // A clock set back before the last failure keeps the delay in force rather than skipping it
+  const since = Math.min(attempts.lastAttemptAt, Date.now());
+  const retryAt = since + delay;
+  return retryAt > Date.now() ? retryAt : 0;
+}
+
+// Throw if the backoff delay from previous failures hasn't passed yet
+export function assertUnlockAllowed(vaultId: string): void {
+  const retryAt = getUnlockRetryAt(vaultId);
+  if (retryAt) throw new UnlockThrottledError(retryAt);
+}
+
+// Consecutive failures left before the wipe policy erases the vault, or null if it is off
+export function getAttemptsBeforeWipe(vaultId: string): number | null {
+  const { wipeAfter } = readUnlockPolicy(vaultId);
+  if (!wipeAfter) return null;
+  return Math.max(wipeAfter - (readAttempts(vaultId)?.count ?? 0), 0);
+}
+
+function writeAttempts(vaultId: string, attempts: StoredAttempts): void {
+  localStorage.setItem(attemptsKey(vaultId), JSON.stringify(attempts));
+}
+
+// Count an attempt before its key is derived, so parallel attempts (from several tabs, or
+// repeated calls) can't all pass the backoff check before any of them has failed. Throws
+// UnlockThrottledError if the backoff delay hasn't passed yet.
+export function beginUnlockAttempt(vaultId: string): void {
+  assertUnlockAllowed(vaultId);
+  const now = Date.now();
+  const previous = readAttempts(vaultId);
+  writeAttempts(vaultId, {
+    count: (previous?.count ?? 0) + 1,
+    firstAttemptAt: previous?.firstAttemptAt ?? now,
+    lastAttemptAt: now,
+    previousAttemptAt: previous?.lastAttemptAt,
+  });
+}
+
+// Take back an attempt counted by beginUnlockAttempt that succeeded or couldn't be made
+export function cancelUnlockAttempt(vaultId: string): void {
+  const attempts = readAttempts(vaultId);
+  if (!attempts) return;
+  if (attempts.count <= 1 || attempts.previousAttemptAt === undefined) {
+    localStorage.removeItem(attemptsKey(vaultId));
+    return;
+  }
+  writeAttempts(vaultId, {
+    count: attempts.count - 1,
+    firstAttemptAt: attempts.firstAttemptAt,
+    lastAttemptAt: attempts.previousAttemptAt,
+  });
+}
+
+// Check a failed attempt, already counted by beginUnlockAttempt, against the wipe policy.
+// Returns true if the vault must now be erased.
+export function isWipeDue(vaultId: string): boolean {
+  const { wipeAfter } = readUnlockPolicy(vaultId);
+  return !!wipeAfter && (readAttempts(vaultId)?.count ?? 0) >= wipeAfter;
+}
+
+// Reset the failure count after a successful unlock, returning the failures before it
+export function takeFailedAttempts(vaultId: string): FailedAttemptSummary | null {
+  cancelUnlockAttempt(vaultId);
+  const attempts = readAttempts(vaultId);
+  localStorage.removeItem(attemptsKey(vaultId));
+  if (!attempts) return null;
+  return { count: attempts.count, firstAttemptAt: attempts.firstAttemptAt, lastAttemptAt: attempts.lastAttemptAt };
+}
+
+// Forget failed attempts and the wipe policy when the vault is deleted or replaced
+export function clearUnlockThrottle(vaultId: string): void {
+  localStorage.removeItem(attemptsKey(vaultId));
+  localStorage.removeItem(policyKey(vaultId));
+}
@@ -1,4 +1,48 @@
-import { encrypt, decrypt, hashPassword, verifyPassword } from './crypto';
+import { z } from 'zod';
+import {
+  encrypt,
+  decrypt,
+  createKeyring,
+  generateDataKey,
+  importDataKey,
+  wrapDataKey,
+  unwrapDataKey,
+  rewrapDataKey,
+  computeSecretKeyCheck,
+  sha256Hex,
+  readEnvelopeHeader,
+  isEnvelopeOutdated,
+  EnvelopeHeader,
+  Keyring,
+  KdfParams,
+  UnsupportedFormatError,
+  ENVELOPE_VERSION,
+  RECOMMENDED_KDF,
+} from './crypto';
+import {
+  EmergencyKit,
+  generateSecretKey,
+  parseSecretKey,
+  generateRecoveryCode,
+  normalizeRecoveryCode,
+  generateTrusteeShares,
+  parseTrusteeShare,
+  combineTrusteeShares,
+  vaultTag,
+  TrusteeShareSet,
+} from './recovery';
+import {
+  assertUnlockAllowed,
+  beginUnlockAttempt,
+  cancelUnlockAttempt,
+  isWipeDue,
+  takeFailedAttempts,
+  clearUnlockThrottle,
+  FailedAttemptSummary,
+} from './throttle';
+import { VaultStorage, getVaultStorage, migrateFromLocalStorage, scopeStorage } from './storage';
+import { migrateVaultData, RawVaultData, VAULT_VERSION } from './migrations';
+import { postTabMessage } from './tabs';
 
 export interface Credential {
   id: string;
@@ -31,66 +75,986 @@ export const CATEGORY_INFO: Record<CredentialCategory, { label: string; icon: st
 };
 
 interface VaultData {
-  credentials: Credential[];
+  // Items that failed validation are stored alongside the valid credentials until repaired
+  credentials: unknown[];
   version: number;
 }
 
+// Shape every stored credential must have; anything else is quarantined on unlock.
+// Unknown fields are kept so nothing written by another version is dropped.
+const credentialSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string(),
+    username: z.string(),
+    password: z.string(),
+    url: z.string().optional(),
+    notes: z.string().optional(),
+    category: z.enum(Object.keys(CATEGORY_INFO) as [CredentialCategory, ...CredentialCategory[]]),
+    createdAt: z.number().finite(),
+    updatedAt: z.number().finite(),
+    favorite: z.boolean(),
+  })
+  .passthrough();
+
+// A stored item that failed validation. It stays in the vault unchanged until it is
+// repaired or discarded, so a damaged entry never fails the whole unlock.
+export interface QuarantinedItem {
+  // Assigned on unlock to tell items apart; not stored
+  id: string;
+  data: unknown;
+  issues: string[];
+}
+
+// Directory of the vaults on this device; each vault's records are stored under its id
+const VAULT_DIRECTORY_KEY = 'vaults';
+// Vault unlocked most recently, preselected on the lock screen
+const LAST_VAULT_KEY = 'last_vault';
+// Name for a vault created without one or before multiple vaults were supported
+export const DEFAULT_VAULT_NAME = 'My Vault';
+export const MAX_VAULT_NAME_LENGTH = 64;
+
 const VAULT_STORAGE_KEY = 'encrypted_vault';
+const VAULT_KEY_STORAGE_KEY = 'vault_key';
+// Password verifier written by older versions; deleted on the next successful unlock
 const MASTER_HASH_KEY = 'master_hash';
-const VAULT_VERSION = 1;
+const VAULT_META_KEY = 'vault_meta';
+// Highest revision this device has written or opened, used to detect rollbacks
+const VAULT_REVISION_KEY = 'vault_revision';
+// Account secret key remembered on this device so only the password is typed to unlock.
+// It is never included in exports, so a copied vault also needs the Emergency Kit.
+const SECRET_KEY_STORAGE_KEY = 'vault_secret_key';
+// Extension of backup files made by exportVault
+export const BACKUP_FILE_EXTENSION = '.securevault';
+// Encrypted vault as it was before a data migration, suffixed with its data version
+const MIGRATION_BACKUP_KEY = 'encrypted_vault_backup';
+// Sync server settings and the vault as of the last sync
+const SYNC_STATE_KEY = 'sync_state';
+// Remote backup schedule; the target's address and sign-in are kept in the vault itself
+const REMOTE_BACKUP_KEY = 'remote_backup';
+// Recovery codes are high-entropy, so a modest KDF cost is enough
+const RECOVERY_KDF: KdfParams = { id: 'pbkdf2-sha256', iterations: 100000 };
+// Every record a vault keeps. Older versions stored a single vault under these keys
+// without a prefix, first in localStorage.
+const VAULT_KEYS = [
+  VAULT_STORAGE_KEY,
+  VAULT_KEY_STORAGE_KEY,
+  MASTER_HASH_KEY,
+  VAULT_META_KEY,
+  VAULT_REVISION_KEY,
+  SECRET_KEY_STORAGE_KEY,
+];
 
-// Check if vault exists
-export function vaultExists(): boolean {
-  return localStorage.getItem(MASTER_HASH_KEY) !== null;
+// Unencrypted vault settings needed before the vault can be decrypted
+export interface VaultMeta {
+  kdf: KdfParams;
+  // Assigned on creation, or when moving a vault created before it existed into the directory
+  id?: string;
 }
 
-// Create new vault with master password
-export async function createVault(masterPassword: string): Promise<void> {
-  const hash = await hashPassword(masterPassword);
-  localStorage.setItem(MASTER_HASH_KEY, hash);
-  
-  const emptyVault: VaultData = {
-    credentials: [],
-    version: VAULT_VERSION,
+// A named vault listed in the directory
+export interface VaultEntry {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+// Thrown when stored vault data does not belong to this vault
+export class VaultIntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultIntegrityError';
+  }
+}
+
+// Thrown by saveVault when another tab saved the vault since this session last read or
+// wrote it. Reload the vault with reloadVault and merge before saving again.
+export class VaultConflictError extends Error {
+  constructor() {
+    super('The vault was changed in another tab.');
+    this.name = 'VaultConflictError';
+  }
+}
+
+// Thrown when too many consecutive failed attempts erased the vault under the wipe policy
+export class VaultWipedError extends Error {
+  constructor() {
+    super('Too many failed attempts. The vault has been erased from this device.');
+    this.name = 'VaultWipedError';
+  }
+}
+
+// The vault data key wrapped by the password-derived key. Successfully decrypting it
+// is the only password check, so there is no separate verifier to attack offline.
+interface VaultKeyRecord {
+  wrappedKey: string;
+  // Data key wrapped by the Emergency Kit recovery code, if the vault has one
+  recoveryKey?: string;
+  // Data key wrapped by a recovery key split among trustees, if set up
+  trustees?: TrusteeRecord;
+  // Verifier stored by older versions; dropped on the next successful unlock
+  hash?: string;
+  // computeSecretKeyCheck() of the secret key, for vaults that use one. Older records get
+  // it on the next successful unlock.
+  secretKeyCheck?: string;
+  // When the password, recovery or trustee setup last changed, so the newer of two
+  // synced copies can be told apart. Missing on records from older versions.
+  changedAt?: number;
+}
+
+interface TrusteeRecord {
+  wrappedKey: string;
+  threshold: number;
+  shareCount: number;
+  createdAt: number;
+}
+
+// Public summary of the trustee recovery setup
+export interface TrusteeRecoveryInfo {
+  threshold: number;
+  shareCount: number;
+  createdAt: number;
+}
+
+let migration: { storage: VaultStorage; done: Promise<unknown> } | null = null;
+
+// Move a single vault stored without a prefix by older versions into its own directory slot
+async function migrateSingleVault(store: VaultStorage): Promise<void> {
+  const hasVault =
+    (await store.get(VAULT_KEY_STORAGE_KEY)) !== null || (await store.get(VAULT_STORAGE_KEY)) !== null;
+  if (!hasVault) return;
+
+  const storedMeta = await store.get(VAULT_META_KEY);
+  const meta: VaultMeta = storedMeta ? JSON.parse(storedMeta) : { kdf: RECOMMENDED_KDF };
+  if (!meta.id) {
+    // Written back first so an interrupted migration resumes with the same id
+    meta.id = generateId();
+    await store.put(VAULT_META_KEY, JSON.stringify(meta));
+  }
+
+  const scoped = scopeStorage(store, vaultPrefix(meta.id));
+  for (const key of VAULT_KEYS) {
+    const value = await store.get(key);
+    if (value !== null) await scoped.put(key, value);
+  }
+  const directory = await readDirectory(store);
+  if (!directory.some((entry) => entry.id === meta.id)) {
+    directory.push({ id: meta.id, name: DEFAULT_VAULT_NAME, createdAt: Date.now() });
+    await store.put(VAULT_DIRECTORY_KEY, JSON.stringify(directory));
+  }
+  await store.put(LAST_VAULT_KEY, meta.id);
+  for (const key of VAULT_KEYS) {
+    await store.delete(key);
+  }
+}
+
+function vaultPrefix(vaultId: string): string {
+  return `vault/${vaultId}/`;
+}
+
+async function readDirectory(store: VaultStorage): Promise<VaultEntry[]> {
+  const stored = await store.get(VAULT_DIRECTORY_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+// The active storage backend, once any vault left in localStorage or without a prefix
+// by older versions has been moved into it
+async function storage(): Promise<VaultStorage> {
+  const target = getVaultStorage();
+  if (migration?.storage !== target) {
+    const done = migrateFromLocalStorage(target, VAULT_KEYS).then(() => migrateSingleVault(target));
+    migration = { storage: target, done };
+    // Retry on the next call if the migration failed
+    done.catch(() => {
+      if (migration?.done === done) migration = null;
+    });
+  }
+  await migration.done;
+  return target;
+}
+
+// Records of one vault
+async function vaultStore(vaultId: string): Promise<VaultStorage> {
+  return scopeStorage(await storage(), vaultPrefix(vaultId));
+}
+
+// Vaults on this device, oldest first
+export async function listVaults(): Promise<VaultEntry[]> {
+  return readDirectory(await storage());
+}
+
+// Id of the vault unlocked most recently, if it still exists
+export async function readLastVaultId(): Promise<string | null> {
+  const store = await storage();
+  const lastId = await store.get(LAST_VAULT_KEY);
+  const directory = await readDirectory(store);
+  return directory.some((entry) => entry.id === lastId) ? lastId : directory[0]?.id ?? null;
+}
+
+// Trimmed vault name, or null if it is empty or too long
+export function normalizeVaultName(name: string): string | null {
+  const trimmed = name.trim();
+  return trimmed && trimmed.length <= MAX_VAULT_NAME_LENGTH ? trimmed : null;
+}
+
+export async function renameVault(vaultId: string, name: string): Promise<boolean> {
+  const normalized = normalizeVaultName(name);
+  if (!normalized) return false;
+
+  const entry = (await listVaults()).find((e) => e.id === vaultId);
+  if (!entry) return false;
+  await writeDirectoryEntry({ ...entry, name: normalized });
+  return true;
+}
+
+// Add a directory entry, or replace the one with the same id
+async function writeDirectoryEntry(entry: VaultEntry): Promise<void> {
+  const store = await storage();
+  const directory = await readDirectory(store);
+  const index = directory.findIndex((e) => e.id === entry.id);
+  if (index === -1) directory.push(entry);
+  else directory[index] = entry;
+  await store.put(VAULT_DIRECTORY_KEY, JSON.stringify(directory));
+}
+
+// Read vault metadata, falling back to defaults for vaults created before it existed
+export async function readVaultMeta(vaultId: string): Promise<VaultMeta> {
+  const store = await vaultStore(vaultId);
+  const stored = await store.get(VAULT_META_KEY);
+  if (!stored) return { kdf: RECOMMENDED_KDF };
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return { kdf: RECOMMENDED_KDF };
+  }
+}
+
+async function writeVaultMeta(vaultId: string, meta: VaultMeta): Promise<void> {
+  const store = await vaultStore(vaultId);
+  await store.put(VAULT_META_KEY, JSON.stringify(meta));
+}
+
+async function readLastRevision(vaultId: string): Promise<number> {
+  const store = await vaultStore(vaultId);
+  return Number(await store.get(VAULT_REVISION_KEY)) || 0;
+}
+
+async function readKeyRecord(vaultId: string): Promise<VaultKeyRecord | null> {
+  const store = await vaultStore(vaultId);
+  const stored = await store.get(VAULT_KEY_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : null;
+}
+
+// Store a key record, stamping it as changed now unless touch is false
+async function writeKeyRecord(vaultId: string, record: VaultKeyRecord, { touch = true } = {}): Promise<void> {
+  const store = await vaultStore(vaultId);
+  await store.put(VAULT_KEY_STORAGE_KEY, JSON.stringify(touch ? { ...record, changedAt: Date.now() } : record));
+}
+
+// Wrap a data key under the master password (and secret key, if the vault uses one)
+async function createKeyRecord(
+  masterPassword: string,
+  dataKey: Uint8Array,
+  kdf: KdfParams,
+  vaultId: string,
+  secretKey?: Uint8Array
+): Promise<VaultKeyRecord> {
+  const kek = await createKeyring(masterPassword, kdf, secretKey);
+  return {
+    wrappedKey: await wrapDataKey(dataKey, kek, { vaultId }),
+    ...(secretKey && { secretKeyCheck: await computeSecretKeyCheck(secretKey, vaultId) }),
   };
-  
-  const encrypted = await encrypt(JSON.stringify(emptyVault), masterPassword);
-  localStorage.setItem(VAULT_STORAGE_KEY, encrypted);
 }
 
-// Unlock vault and return credentials
-export async function unlockVault(masterPassword: string): Promise<Credential[] | null> {
-  const storedHash = localStorage.getItem(MASTER_HASH_KEY);
-  if (!storedHash) return null;
+// Replace the password-wrapped data key, keeping the recovery key and dropping old verifiers
+async function replaceWrappedKey(
+  vaultId: string,
+  record: VaultKeyRecord,
+  wrappedKey: string,
+  options?: { touch?: boolean }
+): Promise<void> {
+  const { hash, ...rest } = record;
+  await writeKeyRecord(vaultId, { ...rest, wrappedKey }, options);
+}
 
-  const isValid = await verifyPassword(masterPassword, storedHash);
-  if (!isValid) return null;
+// Secret key bytes remembered on this device, if any
+async function readStoredSecretKey(vaultId: string): Promise<Uint8Array | null> {
+  const store = await vaultStore(vaultId);
+  const stored = await store.get(SECRET_KEY_STORAGE_KEY);
+  return stored ? parseSecretKey(stored) : null;
+}
 
-  const encryptedVault = localStorage.getItem(VAULT_STORAGE_KEY);
-  if (!encryptedVault) {
-    // Create empty vault if it doesn't exist
-    await createVault(masterPassword);
-    return [];
+// Fail an unlock or recovery attempt counted by beginUnlockAttempt, erasing the vault if
+// the wipe policy is reached
+async function failAttempt(vaultId: string): Promise<null> {
+  if (isWipeDue(vaultId)) {
+    await deleteVault(vaultId);
+    throw new VaultWipedError();
+  }
+  return null;
+}
+
+// Run a password check as an unlock attempt, counted before the key is derived. Returns
+// whether it passed; a failure is kept and may erase the vault under the wipe policy.
+async function attemptPasswordCheck(vaultId: string, check: () => Promise<boolean>): Promise<boolean> {
+  beginUnlockAttempt(vaultId);
+  let passed: boolean;
+  try {
+    passed = await check();
+  } catch (error) {
+    cancelUnlockAttempt(vaultId);
+    throw error;
+  }
+  if (!passed) {
+    await failAttempt(vaultId);
+    return false;
   }
+  cancelUnlockAttempt(vaultId);
+  return true;
+}
+
+// Check whether the vault key is protected by an account secret key
+export async function vaultUsesSecretKey(vaultId: string): Promise<boolean> {
+  const record = await readKeyRecord(vaultId);
+  if (!record) return false;
 
   try {
-    const decrypted = await decrypt(encryptedVault, masterPassword);
-    const vaultData: VaultData = JSON.parse(decrypted);
-    return vaultData.credentials;
+    return readEnvelopeHeader(record.wrappedKey).usesSecretKey;
+  } catch {
+    return false;
+  }
+}
+
+// Check whether the secret key must be entered because this device doesn't remember it
+export async function isSecretKeyRequired(vaultId: string): Promise<boolean> {
+  return (await vaultUsesSecretKey(vaultId)) && (await readStoredSecretKey(vaultId)) === null;
+}
+
+// Check whether the vault can be reset with an Emergency Kit recovery code
+export async function vaultHasRecovery(vaultId: string): Promise<boolean> {
+  return !!(await readKeyRecord(vaultId))?.recoveryKey;
+}
+
+// Trustee recovery setup, or null if the vault has none
+export async function readTrusteeRecovery(vaultId: string): Promise<TrusteeRecoveryInfo | null> {
+  const trustees = (await readKeyRecord(vaultId))?.trustees;
+  if (!trustees) return null;
+  return { threshold: trustees.threshold, shareCount: trustees.shareCount, createdAt: trustees.createdAt };
+}
+
+// Unlocked vault state shared by every save until the vault is locked
+export interface VaultSession {
+  keyring: Keyring | null;
+  vaultId: string;
+  // Revision of the last save; every save writes revision + 1
+  revision: number;
+  // Invalid items, written back with every save until they are resolved
+  quarantine: QuarantinedItem[];
+}
+
+// Set when the stored vault is older than one this device has already seen
+export interface RollbackWarning {
+  expectedRevision: number;
+  foundRevision: number;
+}
+
+export interface UnlockedVault {
+  session: VaultSession;
+  credentials: Credential[];
+  rollback: RollbackWarning | null;
+  // Failed attempts since the previous successful unlock
+  failedAttempts: FailedAttemptSummary | null;
+}
+
+// Metadata readable from a backup without the password
+export interface BackupInfo {
+  // Null for exports made before vaults had ids
+  vaultId: string | null;
+  name: string | null;
+  exportedAt: number | null;
+  revision: number;
+  kdf: KdfParams;
+  usesSecretKey: boolean;
+  // Whether restoring needs the secret key entered from the Emergency Kit
+  needsSecretKey: boolean;
+  hasRecovery: boolean;
+  // Vault on this device that restoring would replace
+  existing: VaultEntry | null;
+}
+
+export interface BackupContents {
+  credentialCount: number;
+  needsRepair: number;
+}
+
+export interface SyncState {
+  serverUrl: string;
+  // Bearer token the server may require
+  token?: string;
+  // Server revision of the last sync, 0 before the first
+  remoteRevision: number;
+  // Encrypted vault as of the last sync: the common base for merging and for telling
+  // whether this device changed anything since
+  base: string | null;
+  lastSyncedAt: number | null;
+}
+
+// How many remote backups to keep. A backup is kept if any rule keeps it; the newest of
+// each day, week and month counts for that period.
+export interface BackupRetention {
+  keepLast: number;
+  keepDaily: number;
+  keepWeekly: number;
+  keepMonthly: number;
+}
+
+export interface RemoteBackupSettings {
+  type: 'webdav' | 's3';
+  // Vault item holding the target's address, user name or access key, and password or secret
+  credentialId: string;
+  // Signing region for S3; self-hosted servers usually accept the default
+  region?: string;
+  intervalHours: number;
+  retention: BackupRetention;
+  lastBackupAt: number | null;
+  // SHA-256 of the last backup without its export time, so an unchanged vault isn't
+  // uploaded again
+  lastBackupDigest: string | null;
+}
+
+export interface CreateVaultOptions {
+  name?: string;
+  // Combine the password with a random secret key and add a recovery code
+  emergencyKit?: boolean;
+}
+
+export interface CreatedVault {
+  session: VaultSession;
+  // Only returned once, at creation; the recovery code is not stored anywhere
+  kit: EmergencyKit | null;
+}
+
+// Create a new named vault with its own master password
+export async function createVault(
+  masterPassword: string,
+  kdf: KdfParams = RECOMMENDED_KDF,
+  options: CreateVaultOptions = {}
+): Promise<CreatedVault> {
+  const vaultId = generateId();
+  const name = normalizeVaultName(options.name ?? '') ?? DEFAULT_VAULT_NAME;
+  const dataKey = generateDataKey();
+
+  let kit: EmergencyKit | null = null;
+  let record: VaultKeyRecord;
+  if (options.emergencyKit) {
+    kit = { vaultId, secretKey: generateSecretKey(), recoveryCode: generateRecoveryCode(), createdAt: Date.now() };
+    record = await createKeyRecord(masterPassword, dataKey, kdf, vaultId, parseSecretKey(kit.secretKey));
+    const recoveryKek = await createKeyring(normalizeRecoveryCode(kit.recoveryCode), RECOVERY_KDF);
+    record.recoveryKey = await wrapDataKey(dataKey, recoveryKek, { vaultId });
+  } else {
+    record = await createKeyRecord(masterPassword, dataKey, kdf, vaultId);
+  }
+
+  const store = await vaultStore(vaultId);
+  await writeVaultMeta(vaultId, { kdf, id: vaultId });
+  await writeKeyRecord(vaultId, record);
+  if (kit) await store.put(SECRET_KEY_STORAGE_KEY, kit.secretKey);
+
+  const session: VaultSession = { keyring: await importDataKey(dataKey), vaultId, revision: 0, quarantine: [] };
+  await saveVault([], session);
+  // Listed only once its records are complete
+  await writeDirectoryEntry({ id: vaultId, name, createdAt: Date.now() });
+  await (await storage()).put(LAST_VAULT_KEY, vaultId);
+  return { session, kit };
+}
+
+// Unlock vault and return credentials. The password is checked only by AES-GCM
+// authentication of the wrapped key (or of a legacy vault blob), which Web Crypto
+// verifies in constant time; every failure returns the same null result.
+// secretKey is only needed when the vault uses one and this device doesn't remember it.
+// Failures are counted and throttled with an increasing delay (UnlockThrottledError),
+// and may erase the vault under the opt-in wipe policy (VaultWipedError).
+export async function unlockVault(
+  vaultId: string,
+  masterPassword: string,
+  secretKey?: string
+): Promise<UnlockedVault | null> {
+  const store = await vaultStore(vaultId);
+  const record = await readKeyRecord(vaultId);
+  const encryptedVault = await store.get(VAULT_STORAGE_KEY);
+  if (!record && !encryptedVault) return null;
+  beginUnlockAttempt(vaultId);
+
+  const meta = await readVaultMeta(vaultId);
+
+  let keyring: Keyring;
+  let vaultData: unknown;
+  let secretKeyBytes: Uint8Array | null = null;
+  let kek: Keyring | null = null;
+  let keyHeader: EnvelopeHeader | null = null;
+  let vaultHeader: EnvelopeHeader | null = null;
+  let passwordEncrypted = false;
+  try {
+    vaultHeader = encryptedVault ? readEnvelopeHeader(encryptedVault) : null;
+    // Vaults from before the data-key hierarchy (or an interrupted migration to it)
+    // are still encrypted directly with the password-derived key
+    passwordEncrypted = vaultHeader !== null && vaultHeader.kdf !== null;
+
+    if (passwordEncrypted) {
+      keyring = await createKeyring(masterPassword, vaultHeader);
+    } else {
+      keyHeader = readEnvelopeHeader(record.wrappedKey);
+      if (keyHeader.usesSecretKey) {
+        secretKeyBytes = secretKey ? parseSecretKey(secretKey) : await readStoredSecretKey(vaultId);
+        // Caught below and counted like a wrong password
+        if (!secretKeyBytes) throw new Error('Secret key missing');
+      }
+      kek = await createKeyring(masterPassword, keyHeader, secretKeyBytes ?? undefined);
+      keyring = await unwrapDataKey(record.wrappedKey, kek);
+    }
+
+    vaultData = encryptedVault ? JSON.parse(await decrypt(encryptedVault, keyring)) : null;
+  } catch (error) {
+    if (error instanceof UnsupportedFormatError) {
+      cancelUnlockAttempt(vaultId);
+      throw error;
+    }
+    return failAttempt(vaultId);
+  }
+  const failedAttempts = takeFailedAttempts(vaultId);
+
+  // The vault id and revision are authenticated as AAD, so they can be trusted here
+  for (const header of [keyHeader, vaultHeader]) {
+    if (header?.context && header.context.vaultId !== vaultId) {
+      throw new VaultIntegrityError('The stored vault data belongs to a different vault and was not opened.');
+    }
+  }
+  if (meta.id !== undefined && meta.id !== vaultId) {
+    throw new VaultIntegrityError('The stored vault data belongs to a different vault and was not opened.');
+  }
+
+  // Refuses data from a newer app before anything is written
+  const migration = encryptedVault ? migrateVaultData(checkVaultData(vaultData)) : null;
+  const { credentials, quarantine } = validateCredentials(migration?.data.credentials);
+  const migrated = migration !== null && migration.fromVersion < VAULT_VERSION;
+  if (migrated && encryptedVault) {
+    await writeMigrationBackup(vaultId, encryptedVault, migration.fromVersion);
+  }
+  if (meta.id !== vaultId) {
+    meta.id = vaultId;
+    await writeVaultMeta(vaultId, meta);
+  }
+
+  const lastRevision = await readLastRevision(vaultId);
+  const foundRevision = vaultHeader?.context?.revision ?? 0;
+  const rollback = foundRevision < lastRevision
+    ? { expectedRevision: lastRevision, foundRevision }
+    : null;
+
+  if (secretKey && secretKeyBytes) {
+    await store.put(SECRET_KEY_STORAGE_KEY, secretKey.trim().toUpperCase());
+  }
+
+  // Continue numbering past anything already seen so the next save is never older
+  const session: VaultSession = {
+    keyring,
+    vaultId,
+    revision: Math.max(foundRevision, lastRevision),
+    quarantine,
+  };
+  await store.put(VAULT_REVISION_KEY, String(session.revision));
+
+  if (passwordEncrypted) {
+    // Move to a random data key wrapped by the password. The key record is written
+    // before the vault is re-encrypted so an interrupted migration can be resumed.
+    const dataKey = generateDataKey();
+    await writeVaultMeta(vaultId, meta);
+    await writeKeyRecord(vaultId, await createKeyRecord(masterPassword, dataKey, meta.kdf, vaultId));
+    session.keyring = await importDataKey(dataKey);
+    await saveVault(credentials, session);
+  } else {
+    if (!vaultHeader || isEnvelopeOutdated(vaultHeader) || migrated) {
+      // Create the vault if it doesn't exist, or re-encrypt it in the current format and layout
+      await saveVault(credentials, session);
+    }
+    if (isEnvelopeOutdated(keyHeader, meta.kdf) || record.hash !== undefined) {
+      // Transparently re-wrap the data key with the current format and KDF parameters,
+      // dropping any verifier left by older versions. The password stays the same, so the
+      // record doesn't count as changed for sync.
+      const newKek = await createKeyring(masterPassword, meta.kdf, secretKeyBytes ?? undefined);
+      const wrappedKey = await rewrapDataKey(record.wrappedKey, kek, newKek, { vaultId });
+      await replaceWrappedKey(vaultId, record, wrappedKey, { touch: false });
+    }
+    if (secretKeyBytes && !record.secretKeyCheck) {
+      // The secret key just opened the vault, so it can be recorded as the right one
+      const current = (await readKeyRecord(vaultId)) ?? record;
+      await writeKeyRecord(
+        vaultId,
+        { ...current, secretKeyCheck: await computeSecretKeyCheck(secretKeyBytes, vaultId) },
+        { touch: false }
+      );
+    }
+  }
+  await store.delete(MASTER_HASH_KEY);
+  await (await storage()).put(LAST_VAULT_KEY, vaultId);
+
+  return { session, credentials, rollback, failedAttempts };
+}
+
+// Decrypted vault data has to be an object holding the credentials. Anything else means
+// the vault is damaged; it is refused rather than opened as an empty vault and overwritten.
+function checkVaultData(data: unknown): RawVaultData {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new VaultIntegrityError('The stored vault data is damaged and was not opened.');
+  }
+  return data as RawVaultData;
+}
+
+// Split decrypted credentials into valid ones and items that need repair
+function validateCredentials(items: unknown): { credentials: Credential[]; quarantine: QuarantinedItem[] } {
+  const credentials: Credential[] = [];
+  const quarantine: QuarantinedItem[] = [];
+  const seenIds = new Set<string>();
+  // A damaged vault may not even hold a list
+  const list = items === undefined ? [] : Array.isArray(items) ? items : [items];
+
+  for (const item of list) {
+    const result = credentialSchema.safeParse(item);
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => `${issue.path.join('.') || 'item'}: ${issue.message}`);
+      quarantine.push({ id: generateId(), data: item, issues });
+    } else if (seenIds.has(result.data.id)) {
+      quarantine.push({ id: generateId(), data: item, issues: ['id: Another credential has the same id'] });
+    } else {
+      seenIds.add(result.data.id);
+      credentials.push(result.data as Credential);
+    }
+  }
+  return { credentials, quarantine };
+}
+
+// Best-effort credential built from a quarantined item, as a starting point for repairing it.
+// It always gets a new id since the stored one may be missing or taken.
+export function salvageCredential(item: QuarantinedItem): Credential {
+  const data: Record<string, unknown> = item.data && typeof item.data === 'object' ? { ...item.data } : {};
+  const text = (value: unknown) =>
+    typeof value === 'string' ? value : typeof value === 'number' ? String(value) : '';
+  const category = text(data.category);
+
+  return {
+    id: generateId(),
+    name: text(data.name) || 'Untitled',
+    username: text(data.username),
+    password: text(data.password),
+    url: text(data.url) || undefined,
+    notes: text(data.notes) || undefined,
+    category: category in CATEGORY_INFO ? (category as CredentialCategory) : 'other',
+    createdAt: typeof data.createdAt === 'number' && Number.isFinite(data.createdAt) ? data.createdAt : Date.now(),
+    updatedAt: Date.now(),
+    favorite: data.favorite === true,
+  };
+}
+
+// Replace a quarantined item with its repaired credential, or discard it when replacement
+// is null, and save. Returns the updated credential list.
+export async function resolveQuarantinedItem(
+  itemId: string,
+  replacement: Credential | null,
+  credentials: Credential[],
+  session: VaultSession
+): Promise<Credential[]> {
+  const updated = replacement ? [...credentials, replacement] : [...credentials];
+  const previous = session.quarantine;
+  session.quarantine = previous.filter((item) => item.id !== itemId);
+  try {
+    await saveVault(updated, session);
+  } catch (error) {
+    session.quarantine = previous;
+    throw error;
+  }
+  return updated;
+}
+
+// Keep the encrypted vault as it was before a data migration so a faulty migration can be
+// undone. It stays encrypted with the same data key. Only the first backup for each source
+// version is kept, so retrying an interrupted migration doesn't replace the original.
+async function writeMigrationBackup(vaultId: string, encrypted: string, fromVersion: number): Promise<void> {
+  const store = await vaultStore(vaultId);
+  const key = `${MIGRATION_BACKUP_KEY}_v${fromVersion}`;
+  if ((await store.get(key)) === null) await store.put(key, encrypted);
+}
+
+// Change the master password by re-wrapping the vault data key. The old password is
+// verified by decrypting the current wrapped key. The vault data itself is untouched
+// and the key record is replaced in a single write, so an interrupted change leaves
+// either the old or the new password working.
+export async function changeMasterPassword(
+  vaultId: string,
+  oldPassword: string,
+  newPassword: string
+): Promise<boolean> {
+  const record = await readKeyRecord(vaultId);
+  if (!record) return false;
+
+  const meta = await readVaultMeta(vaultId);
+  try {
+    const header = readEnvelopeHeader(record.wrappedKey);
+    const secretKey = header.usesSecretKey ? await readStoredSecretKey(vaultId) : null;
+    if (header.usesSecretKey && !secretKey) return false;
+
+    const oldKek = await createKeyring(oldPassword, header, secretKey ?? undefined);
+    const newKek = await createKeyring(newPassword, meta.kdf, secretKey ?? undefined);
+    const wrappedKey = await rewrapDataKey(record.wrappedKey, oldKek, newKek, { vaultId });
+
+    await replaceWrappedKey(vaultId, record, wrappedKey);
+    return true;
+  } catch (error) {
+    if (error instanceof UnsupportedFormatError) throw error;
+    return false;
+  }
+}
+
+// Check the master password again before a sensitive action. secretKey is only needed when
+// the vault uses one and this device doesn't remember it.
+export async function verifyMasterPassword(
+  vaultId: string,
+  masterPassword: string,
+  secretKey?: string
+): Promise<boolean> {
+  const record = await readKeyRecord(vaultId);
+  if (!record) return false;
+
+  try {
+    const header = readEnvelopeHeader(record.wrappedKey);
+    const secretKeyBytes = header.usesSecretKey
+      ? (secretKey ? parseSecretKey(secretKey) : await readStoredSecretKey(vaultId))
+      : null;
+    if (header.usesSecretKey && !secretKeyBytes) return false;
+
+    const kek = await createKeyring(masterPassword, header, secretKeyBytes ?? undefined);
+    await unwrapDataKey(record.wrappedKey, kek);
+    return true;
+  } catch (error) {
+    if (error instanceof UnsupportedFormatError) throw error;
+    return false;
+  }
+}
+
+// Whether a secret key is the one the vault was set up with, as far as can be told
+async function isRightSecretKey(vaultId: string, record: VaultKeyRecord, secretKey: Uint8Array): Promise<boolean> {
+  if (record.secretKeyCheck) return (await computeSecretKeyCheck(secretKey, vaultId)) === record.secretKeyCheck;
+  const stored = await readStoredSecretKey(vaultId);
+  return !stored || stored.every((byte, i) => byte === secretKey[i]);
+}
+
+// Replace the password-wrapped data key with one re-wrapped from a recovery-wrapped copy.
+// Returns false if the recovery code or the secret key is wrong. A key record from before
+// secret key checks can't tell a wrong secret key; it is compared with the one remembered
+// on this device if there is one.
+async function resetMasterPassword(
+  vaultId: string,
+  record: VaultKeyRecord,
+  recoveryWrappedKey: string,
+  recoveryCode: string,
+  newPassword: string,
+  secretKey?: string
+): Promise<boolean> {
+  const meta = await readVaultMeta(vaultId);
+  try {
+    const keyHeader = readEnvelopeHeader(record.wrappedKey);
+    const secretKeyBytes = keyHeader.usesSecretKey
+      ? (secretKey ? parseSecretKey(secretKey) : await readStoredSecretKey(vaultId))
+      : null;
+    if (keyHeader.usesSecretKey && !secretKeyBytes) return false;
+    if (secretKeyBytes && !(await isRightSecretKey(vaultId, record, secretKeyBytes))) return false;
+
+    const recoveryHeader = readEnvelopeHeader(recoveryWrappedKey);
+    const recoveryKek = await createKeyring(recoveryCode, recoveryHeader);
+    const newKek = await createKeyring(newPassword, meta.kdf, secretKeyBytes ?? undefined);
+    const wrappedKey = await rewrapDataKey(recoveryWrappedKey, recoveryKek, newKek, { vaultId });
+    await replaceWrappedKey(vaultId, record, wrappedKey);
+    return true;
+  } catch (error) {
+    if (error instanceof UnsupportedFormatError) throw error;
+    return false;
+  }
+}
+
+// Reset a forgotten master password with the Emergency Kit recovery code, then unlock.
+// secretKey is only needed when the vault uses one and this device doesn't remember it.
+export async function recoverVault(
+  vaultId: string,
+  recoveryCode: string,
+  newPassword: string,
+  secretKey?: string
+): Promise<UnlockedVault | null> {
+  const record = await readKeyRecord(vaultId);
+  const code = normalizeRecoveryCode(recoveryCode);
+  if (!record?.recoveryKey || !code) return null;
+
+  const reset = () => resetMasterPassword(vaultId, record, record.recoveryKey, code, newPassword, secretKey);
+  if (!(await attemptPasswordCheck(vaultId, reset))) return null;
+  return unlockVault(vaultId, newPassword, secretKey);
+}
+
+// Split a new trustee recovery key into shareCount shares with the given threshold,
+// replacing any previous shares. The master password is needed to unwrap the data key.
+// The shares are only returned here and are never stored.
+export async function setupTrusteeRecovery(
+  vaultId: string,
+  masterPassword: string,
+  shareCount: number,
+  threshold: number
+): Promise<TrusteeShareSet | null> {
+  const record = await readKeyRecord(vaultId);
+  if (!record) return null;
+
+  try {
+    const header = readEnvelopeHeader(record.wrappedKey);
+    const secretKey = header.usesSecretKey ? await readStoredSecretKey(vaultId) : null;
+    if (header.usesSecretKey && !secretKey) return null;
+
+    const { recoveryKey, shareSet } = generateTrusteeShares(vaultId, shareCount, threshold);
+    const kek = await createKeyring(masterPassword, header, secretKey ?? undefined);
+    const trusteeKek = await createKeyring(recoveryKey, RECOVERY_KDF);
+    const wrappedKey = await rewrapDataKey(record.wrappedKey, kek, trusteeKek, { vaultId });
+
+    await writeKeyRecord(vaultId, {
+      ...record,
+      trustees: { wrappedKey, threshold, shareCount, createdAt: shareSet.createdAt },
+    });
+    return shareSet;
+  } catch (error) {
+    if (error instanceof UnsupportedFormatError) throw error;
+    return null;
+  }
+}
+
+// Remove trustee recovery so existing shares no longer open the vault
+export async function removeTrusteeRecovery(vaultId: string): Promise<void> {
+  const record = await readKeyRecord(vaultId);
+  if (!record?.trustees) return;
+  const { trustees, ...rest } = record;
+  await writeKeyRecord(vaultId, rest);
+}
+
+// Reset a forgotten master password with trustee shares, then unlock.
+// secretKey is only needed when the vault uses one and this device doesn't remember it.
+export async function recoverVaultWithShares(
+  vaultId: string,
+  shares: string[],
+  newPassword: string,
+  secretKey?: string
+): Promise<UnlockedVault | null> {
+  const record = await readKeyRecord(vaultId);
+  if (!record?.trustees) return null;
+  assertUnlockAllowed(vaultId);
+
+  const parsed = shares.map(parseTrusteeShare);
+  if (parsed.some((share) => share === null) || parsed.length < record.trustees.threshold) return null;
+
+  if (parsed.some((share) => share.vaultTag !== vaultTag(vaultId))) {
+    throw new VaultIntegrityError('These shares belong to a different vault.');
+  }
+
+  let recoveryKey: string;
+  try {
+    recoveryKey = combineTrusteeShares(parsed);
   } catch {
     return null;
   }
+
+  const { wrappedKey } = record.trustees;
+  const reset = () => resetMasterPassword(vaultId, record, wrappedKey, recoveryKey, newPassword, secretKey);
+  if (!(await attemptPasswordCheck(vaultId, reset))) return null;
+  return unlockVault(vaultId, newPassword, secretKey);
+}
+
+// Run action while holding a lock on the vault shared by all tabs, so checking the stored
+// revision and writing the next one can't interleave with a save in another tab. Without
+// the Web Locks API the action runs unguarded.
+async function withVaultLock<T>(vaultId: string, action: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !('locks' in navigator)) return action();
+  return navigator.locks.request(`securevault/${vaultId}`, action);
 }
 
-// Save credentials to vault
-export async function saveVault(credentials: Credential[], masterPassword: string): Promise<void> {
+// Save credentials to vault. Throws VaultConflictError if another tab saved it first.
+// minRevision numbers the save past a revision seen elsewhere, e.g. on a synced device.
+export async function saveVault(
+  credentials: Credential[],
+  session: VaultSession,
+  { minRevision = 0 } = {}
+): Promise<void> {
+  const keyring = session.keyring;
+  if (!keyring) throw new Error('Vault is locked');
+
   const vaultData: VaultData = {
-    credentials,
+    credentials: [...credentials, ...session.quarantine.map((item) => item.data)],
     version: VAULT_VERSION,
   };
   
-  const encrypted = await encrypt(JSON.stringify(vaultData), masterPassword);
-  localStorage.setItem(VAULT_STORAGE_KEY, encrypted);
+  const revision = await withVaultLock(session.vaultId, async () => {
+    if ((await readLastRevision(session.vaultId)) > session.revision) throw new VaultConflictError();
+
+    const next = Math.max(session.revision, minRevision) + 1;
+    const encrypted = await encrypt(JSON.stringify(vaultData), keyring, {
+      vaultId: session.vaultId,
+      revision: next,
+    });
+    const store = await vaultStore(session.vaultId);
+    await store.put(VAULT_STORAGE_KEY, encrypted);
+    await store.put(VAULT_REVISION_KEY, String(next));
+    return next;
+  });
+  session.revision = revision;
+  postTabMessage({ type: 'saved', vaultId: session.vaultId, revision });
+}
+
+// Read the vault again after another tab saved it. Moves the session to the stored
+// revision and returns the stored credentials.
+export async function reloadVault(session: VaultSession): Promise<Credential[]> {
+  return withVaultLock(session.vaultId, async () => {
+    const encrypted = await readEncryptedVault(session.vaultId);
+    if (!encrypted) throw new Error('Vault not found');
+
+    const copy = await decryptVaultCopy(encrypted, session);
+    session.revision = Math.max(copy.revision, await readLastRevision(session.vaultId));
+    session.quarantine = copy.quarantine;
+    return copy.credentials;
+  });
+}
+
+// Lock vault and drop the derived key
+export function lockVault(session: VaultSession): void {
+  session.keyring = null;
+}
+
+// Copy credentials from one unlocked vault into another, or move them when move is set.
+// Copies get new ids so the two vaults never share one. The target is saved before the
+// source so an interrupted move can leave a duplicate but never lose a credential.
+// Returns the updated credential lists of both vaults.
+export async function transferCredentials(
+  ids: string[],
+  source: { session: VaultSession; credentials: Credential[] },
+  target: { session: VaultSession; credentials: Credential[] },
+  move: boolean
+): Promise<{ source: Credential[]; target: Credential[] }> {
+  if (source.session.vaultId === target.session.vaultId) throw new Error('Source and target are the same vault');
+
+  const selected = new Set(ids);
+  const now = Date.now();
+  const transferred = source.credentials
+    .filter((c) => selected.has(c.id))
+    .map((c) => (move ? c : { ...c, id: generateId(), createdAt: now, updatedAt: now }));
+
+  const targetCredentials = [...target.credentials, ...transferred];
+  await saveVault(targetCredentials, target.session);
+
+  const sourceCredentials = move ? source.credentials.filter((c) => !selected.has(c.id)) : source.credentials;
+  if (move) await saveVault(sourceCredentials, source.session);
+
+  return { source: sourceCredentials, target: targetCredentials };
 }
 
 // Generate unique ID
@@ -98,32 +1062,325 @@ export function generateId(): string {
   return crypto.randomUUID();
 }
 
-// Delete vault completely
-export function deleteVault(): void {
-  localStorage.removeItem(VAULT_STORAGE_KEY);
-  localStorage.removeItem(MASTER_HASH_KEY);
+// Delete a locked vault after checking its master password, so it can't be deleted by
+// anyone at the keyboard. A wrong password counts as a failed unlock attempt. Returns
+// false if the password or secret key is wrong.
+export async function deleteVaultWithPassword(
+  vaultId: string,
+  masterPassword: string,
+  secretKey?: string
+): Promise<boolean> {
+  if (!(await attemptPasswordCheck(vaultId, () => verifyMasterPassword(vaultId, masterPassword, secretKey)))) {
+    return false;
+  }
+  await deleteVault(vaultId);
+  return true;
+}
+
+// Delete a vault and remove it from the directory. Its vault file link, kept by vaultFile.ts,
+// has to be removed by the caller with unlinkVaultFile.
+export async function deleteVault(vaultId: string): Promise<void> {
+  const root = await storage();
+  const directory = (await readDirectory(root)).filter((entry) => entry.id !== vaultId);
+  await root.put(VAULT_DIRECTORY_KEY, JSON.stringify(directory));
+
+  const store = await vaultStore(vaultId);
+  for (const key of await store.list()) {
+    await store.delete(key);
+  }
+  clearUnlockThrottle(vaultId);
+  postTabMessage({ type: 'locked', vaultIds: [vaultId] });
 }
 
 // Export vault (encrypted)
-export function exportVault(): string | null {
-  const encrypted = localStorage.getItem(VAULT_STORAGE_KEY);
-  const hash = localStorage.getItem(MASTER_HASH_KEY);
+export async function exportVault(vaultId: string): Promise<string | null> {
+  const store = await vaultStore(vaultId);
+  const encrypted = await store.get(VAULT_STORAGE_KEY);
+  const key = await readKeyRecord(vaultId);
   
-  if (!encrypted || !hash) return null;
+  if (!encrypted) return null;
   
-  return JSON.stringify({ encrypted, hash, version: VAULT_VERSION });
+  const meta = await readVaultMeta(vaultId);
+  const entry = (await listVaults()).find((e) => e.id === vaultId);
+  return JSON.stringify({
+    encrypted,
+    ...(key && { key }),
+    meta,
+    ...(entry && { name: entry.name }),
+    exportedAt: Date.now(),
+    version: VAULT_VERSION,
+    format: ENVELOPE_VERSION,
+  });
+}
+
+// SHA-256 of an exportVault() copy without its export time, to tell whether the vault
+// changed between two exports
+export async function fingerprintExport(data: string): Promise<string> {
+  const { exportedAt: _exportedAt, ...vault } = JSON.parse(data);
+  return sha256Hex(JSON.stringify(vault));
+}
+
+// File name for a backup or export of the named vault
+export function backupFileName(name: string, date = new Date(), extension = BACKUP_FILE_EXTENSION): string {
+  const base = name.replace(/[^\p{L}\p{N}_-]+/gu, '-').replace(/^-+|-+$/g, '') || 'vault';
+  return `${base}-${date.toISOString().slice(0, 10)}${extension}`;
+}
+
+// Read what a backup contains without decrypting it. Returns null if the data isn't a
+// backup and throws UnsupportedFormatError if it was made by a newer version of the app.
+export async function readBackupInfo(data: string): Promise<BackupInfo | null> {
+  let parsed;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (typeof parsed?.encrypted !== 'string') return null;
+  if ((parsed.format !== undefined && parsed.format > ENVELOPE_VERSION) ||
+      (parsed.version !== undefined && parsed.version > VAULT_VERSION)) {
+    throw new UnsupportedFormatError('This backup was made by a newer version of SecureVault. Update the app to restore it.');
+  }
+
+  try {
+    const vaultHeader = readEnvelopeHeader(parsed.encrypted);
+    const keyHeader = parsed.key ? readEnvelopeHeader(parsed.key.wrappedKey) : null;
+    const meta: VaultMeta = parsed.meta ?? { kdf: RECOMMENDED_KDF };
+    const vaultId = meta.id ?? null;
+    const existing = vaultId ? (await listVaults()).find((entry) => entry.id === vaultId) ?? null : null;
+    const usesSecretKey = keyHeader?.usesSecretKey ?? false;
+
+    return {
+      vaultId,
+      name: typeof parsed.name === 'string' ? parsed.name : null,
+      exportedAt: typeof parsed.exportedAt === 'number' ? parsed.exportedAt : null,
+      revision: vaultHeader.context?.revision ?? 0,
+      kdf: meta.kdf,
+      usesSecretKey,
+      // A secret key remembered for the vault on this device is used instead
+      needsSecretKey: usesSecretKey && !(vaultId && existing && (await readStoredSecretKey(vaultId))),
+      hasRecovery: !!parsed.key?.recoveryKey,
+      existing,
+    };
+  } catch (error) {
+    if (error instanceof UnsupportedFormatError) throw error;
+    return null;
+  }
+}
+
+// Decrypt the credentials in a backup without restoring it.
+// secretKey is only needed when the backup uses one and this device doesn't remember it.
+// Returns null if the password or secret key is wrong, and throws VaultIntegrityError if
+// the backup decrypts to damaged data.
+export async function readBackupCredentials(
+  data: string,
+  masterPassword: string,
+  secretKey?: string
+): Promise<{ credentials: Credential[]; quarantine: QuarantinedItem[] } | null> {
+  const info = await readBackupInfo(data);
+  if (!info) return null;
+
+  try {
+    const parsed = JSON.parse(data);
+    const vaultHeader = readEnvelopeHeader(parsed.encrypted);
+    let keyring: Keyring;
+    if (vaultHeader.kdf !== null) {
+      keyring = await createKeyring(masterPassword, vaultHeader);
+    } else {
+      if (!parsed.key) return null;
+      const keyHeader = readEnvelopeHeader(parsed.key.wrappedKey);
+      let secretKeyBytes: Uint8Array | null = null;
+      if (keyHeader.usesSecretKey) {
+        secretKeyBytes = secretKey
+          ? parseSecretKey(secretKey)
+          : info.existing && info.vaultId ? await readStoredSecretKey(info.vaultId) : null;
+        if (!secretKeyBytes) return null;
+      }
+      const kek = await createKeyring(masterPassword, keyHeader, secretKeyBytes ?? undefined);
+      keyring = await unwrapDataKey(parsed.key.wrappedKey, kek);
+    }
+
+    const decrypted = checkVaultData(JSON.parse(await decrypt(parsed.encrypted, keyring)));
+    const { data: vaultData } = migrateVaultData(decrypted);
+    return validateCredentials(vaultData.credentials);
+  } catch (error) {
+    if (error instanceof UnsupportedFormatError || error instanceof VaultIntegrityError) throw error;
+    return null;
+  }
+}
+
+// Encrypted vault as stored on this device
+export async function readEncryptedVault(vaultId: string): Promise<string | null> {
+  const store = await vaultStore(vaultId);
+  return store.get(VAULT_STORAGE_KEY);
+}
+
+// Decrypt another copy of an unlocked vault, e.g. one from a sync server, with the
+// vault's data key. Invalid items are returned separately. Throws VaultIntegrityError if
+// the copy belongs to a different vault.
+export async function decryptVaultCopy(
+  encrypted: string,
+  session: VaultSession
+): Promise<{ credentials: Credential[]; quarantine: QuarantinedItem[]; revision: number }> {
+  if (!session.keyring) throw new Error('Vault is locked');
+
+  const header = readEnvelopeHeader(encrypted);
+  if (header.context?.vaultId !== session.vaultId) {
+    throw new VaultIntegrityError('The vault copy belongs to a different vault.');
+  }
+  const { data } = migrateVaultData(checkVaultData(JSON.parse(await decrypt(encrypted, session.keyring))));
+  return { ...validateCredentials(data.credentials), revision: header.context.revision };
+}
+
+// Digest of a key record as it is stored, for sealing it with the data key
+async function keyRecordDigest(record: unknown): Promise<string> {
+  return sha256Hex(JSON.stringify(record));
+}
+
+// Add a seal of the key record to an exportVault() copy: its digest encrypted with the data
+// key. A copy that went through an untrusted server, e.g. for sync, can then prove its key
+// record came from a device that could open the vault.
+export async function sealKeyRecord(data: string, session: VaultSession): Promise<string> {
+  if (!session.keyring) throw new Error('Vault is locked');
+  const parsed = JSON.parse(data);
+  if (!parsed.key) return data;
+  const keySeal = await encrypt(await keyRecordDigest(parsed.key), session.keyring, { vaultId: session.vaultId });
+  return JSON.stringify({ ...parsed, keySeal });
+}
+
+// Compare this device's key record with the one of another copy of the vault, e.g. a
+// synced one, and adopt theirs if it changed more recently, so a master password changed
+// on another device works here too. Only a record sealed with sealKeyRecord is adopted.
+// Returns which side had the newer record, or null if neither did. Throws
+// VaultIntegrityError if the seal doesn't match the record.
+export async function mergeKeyRecord(
+  session: VaultSession,
+  theirs: unknown,
+  seal: unknown
+): Promise<'mine' | 'theirs' | null> {
+  if (!session.keyring) throw new Error('Vault is locked');
+  const mine = await readKeyRecord(session.vaultId);
+  if (typeof theirs !== 'object' || theirs === null || typeof (theirs as VaultKeyRecord).wrappedKey !== 'string') {
+    return mine ? 'mine' : null;
+  }
+  const record = theirs as VaultKeyRecord;
+  const mineChangedAt = mine?.changedAt ?? 0;
+  const theirsChangedAt = record.changedAt ?? 0;
+  if (mine && mineChangedAt >= theirsChangedAt) return mineChangedAt > theirsChangedAt ? 'mine' : null;
+  // Records from versions that didn't seal them are never adopted
+  if (typeof seal !== 'string') return mine ? 'mine' : null;
+
+  let sealed: string | null = null;
+  try {
+    if (readEnvelopeHeader(seal).context?.vaultId === session.vaultId) sealed = await decrypt(seal, session.keyring);
+  } catch {
+    // Not sealed with this vault's data key
+  }
+  if (sealed === null || sealed !== (await keyRecordDigest(theirs))) {
+    throw new VaultIntegrityError('The key record of the other copy could not be verified.');
+  }
+  await writeKeyRecord(session.vaultId, record, { touch: false });
+  return 'theirs';
+}
+
+export async function readSyncState(vaultId: string): Promise<SyncState | null> {
+  const store = await vaultStore(vaultId);
+  const stored = await store.get(SYNC_STATE_KEY);
+  return stored ? JSON.parse(stored) : null;
+}
+
+// Save the sync settings of a vault, or turn sync off with null
+export async function writeSyncState(vaultId: string, state: SyncState | null): Promise<void> {
+  const store = await vaultStore(vaultId);
+  if (state) await store.put(SYNC_STATE_KEY, JSON.stringify(state));
+  else await store.delete(SYNC_STATE_KEY);
+}
+
+export async function readRemoteBackupSettings(vaultId: string): Promise<RemoteBackupSettings | null> {
+  const store = await vaultStore(vaultId);
+  const stored = await store.get(REMOTE_BACKUP_KEY);
+  return stored ? JSON.parse(stored) : null;
+}
+
+// Save the remote backup settings of a vault, or turn remote backups off with null
+export async function writeRemoteBackupSettings(vaultId: string, settings: RemoteBackupSettings | null): Promise<void> {
+  const store = await vaultStore(vaultId);
+  if (settings) await store.put(REMOTE_BACKUP_KEY, JSON.stringify(settings));
+  else await store.delete(REMOTE_BACKUP_KEY);
+}
+
+// Check that a backup can be decrypted with the given password without restoring it.
+// Returns what the backup holds, or null if the password or secret key is wrong.
+export async function verifyBackup(
+  data: string,
+  masterPassword: string,
+  secretKey?: string
+): Promise<BackupContents | null> {
+  const contents = await readBackupCredentials(data, masterPassword, secretKey);
+  if (!contents) return null;
+  return { credentialCount: contents.credentials.length, needsRepair: contents.quarantine.length };
 }
 
-// Import vault (encrypted)
-export function importVault(data: string): boolean {
+// Replace the stored vault with another copy of it, e.g. its vault file after the file was
+// changed elsewhere. Unlike importVault this keeps the revision history, so an older copy
+// is reported as a rollback, and tabs with the vault open reload it instead of locking.
+// Throws VaultIntegrityError if the data isn't a copy of this vault.
+export async function loadVaultCopy(vaultId: string, data: string): Promise<RollbackWarning | null> {
+  const parsed = JSON.parse(data);
+  if (typeof parsed?.encrypted !== 'string' || readEnvelopeHeader(parsed.encrypted).context?.vaultId !== vaultId) {
+    throw new VaultIntegrityError('The vault copy belongs to a different vault.');
+  }
+  const foundRevision = readEnvelopeHeader(parsed.encrypted).context?.revision ?? 0;
+
+  const lastRevision = await withVaultLock(vaultId, async () => {
+    const store = await vaultStore(vaultId);
+    await store.put(VAULT_STORAGE_KEY, parsed.encrypted);
+    if (parsed.key) await writeKeyRecord(vaultId, parsed.key, { touch: false });
+    if (parsed.meta) await writeVaultMeta(vaultId, { ...parsed.meta, id: vaultId });
+    const last = await readLastRevision(vaultId);
+    if (foundRevision > last) await store.put(VAULT_REVISION_KEY, String(foundRevision));
+    return last;
+  });
+  postTabMessage({ type: 'saved', vaultId, revision: foundRevision });
+  return foundRevision < lastRevision ? { expectedRevision: lastRevision, foundRevision } : null;
+}
+
+// Import vault (encrypted). An export of a vault already on this device only replaces it
+// when replace is set; anything else is added as a new vault. Returns the id of the
+// imported vault, or null if the data is invalid or would replace a vault without replace.
+export async function importVault(data: string, options: { replace?: boolean } = {}): Promise<string | null> {
   try {
     const parsed = JSON.parse(data);
-    if (!parsed.encrypted || !parsed.hash) return false;
+    if (!parsed.encrypted) return null;
+    if (parsed.format !== undefined && parsed.format > ENVELOPE_VERSION) return null;
+    if (parsed.version !== undefined && parsed.version > VAULT_VERSION) return null;
+
+    const meta: VaultMeta = parsed.meta ?? { kdf: RECOMMENDED_KDF };
+    const vaultId = meta.id ?? generateId();
+    const existing = (await listVaults()).find((entry) => entry.id === vaultId);
+    if (existing && !options.replace) return null;
+    const store = await vaultStore(vaultId);
     
-    localStorage.setItem(VAULT_STORAGE_KEY, parsed.encrypted);
-    localStorage.setItem(MASTER_HASH_KEY, parsed.hash);
-    return true;
+    await store.put(VAULT_STORAGE_KEY, parsed.encrypted);
+    // Older exports carry a password verifier instead of a key record; it is no
+    // longer needed because the vault blob itself authenticates the password
+    if (parsed.key) await writeKeyRecord(vaultId, parsed.key, { touch: false });
+    else await store.delete(VAULT_KEY_STORAGE_KEY);
+    await store.delete(MASTER_HASH_KEY);
+    await writeVaultMeta(vaultId, { ...meta, id: vaultId });
+    // An import deliberately replaces the vault, so it starts a new revision history
+    await store.delete(VAULT_REVISION_KEY);
+    // A secret key remembered for this vault is kept. A vault new to this device
+    // needs its secret key entered from its Emergency Kit.
+
+    if (!existing) {
+      const name = normalizeVaultName(typeof parsed.name === 'string' ? parsed.name : '') ?? 'Imported Vault';
+      await writeDirectoryEntry({ id: vaultId, name, createdAt: Date.now() });
+    } else {
+      // Tabs that have the replaced vault open must unlock the restored copy
+      postTabMessage({ type: 'locked', vaultIds: [vaultId] });
+    }
+    return vaultId;
   } catch {
-    return false;
+    return null;
   }
 }
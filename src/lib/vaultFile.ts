@@ -0,0 +1,277 @@
+// Vaults kept in a file the user chose, like a KeePass database. The file holds the same
+// data as a backup. The vault in browser storage is a working copy written to the file
+// after every change; changes made to the file elsewhere are detected and loaded.
+import {
+  BACKUP_FILE_EXTENSION,
+  RollbackWarning,
+  VaultEntry,
+  exportVault,
+  fingerprintExport,
+  importVault,
+  loadVaultCopy,
+  readBackupInfo,
+} from './vault';
+import { promisify } from './storage';
+import { downloadFile } from './download';
+
+// Where the file is linked to a vault. Without the File System Access API there is no
+// handle and the file is downloaded instead.
+export interface VaultFileLink {
+  handle: FileSystemFileHandle | null;
+  fileName: string;
+  // Modification time of the file as last written or read here
+  lastModified: number;
+  // Fingerprint of the vault as last written to or loaded from the file
+  fingerprint: string;
+  savedAt: number | null;
+}
+
+// unchanged: file and vault match
+// saved: changes were written to the file
+// unsaved: changes wait to be downloaded (no file handle)
+// changed: the file was changed elsewhere and can be loaded
+// conflict: both the file and the vault changed since the last save
+export type VaultFileStatus = 'unchanged' | 'saved' | 'unsaved' | 'changed' | 'conflict';
+
+// The id of the opened vault, or the vault on this device that opening the file would replace
+export type OpenedVaultFile = { vaultId: string } | { replaces: VaultEntry };
+
+// Thrown when the vault file can't be read or written
+export class VaultFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultFileError';
+  }
+}
+
+// Parts of the File System Access API not yet in TypeScript's DOM types
+interface FilePickerOptions {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}
+
+interface FilePickerWindow {
+  showOpenFilePicker(options?: FilePickerOptions): Promise<FileSystemFileHandle[]>;
+  showSaveFilePicker(options?: FilePickerOptions): Promise<FileSystemFileHandle>;
+}
+
+interface PermissionHandle {
+  queryPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+  requestPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+}
+
+const FILE_TYPES: FilePickerOptions['types'] = [
+  { description: 'SecureVault vault', accept: { 'application/json': [BACKUP_FILE_EXTENSION] } },
+];
+
+// Handles can't be kept in the string-only vault storage, so links get their own database
+const DB_NAME = 'securevault-files';
+const DB_VERSION = 1;
+const STORE_NAME = 'links';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+async function linkStore(mode: IDBTransactionMode): Promise<IDBObjectStore | null> {
+  if (typeof indexedDB === 'undefined') return null;
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    dbPromise = promisify(request);
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return (await dbPromise).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+}
+
+// Suggested name of the file for a vault, e.g. "Personal.securevault"
+export function vaultFileName(vaultName: string): string {
+  return `${vaultName.replace(/[^\p{L}\p{N}_ -]+/gu, '-').trim() || 'vault'}${BACKUP_FILE_EXTENSION}`;
+}
+
+// File handles can be used directly; elsewhere the vault file is uploaded and downloaded
+export function supportsFileHandles(): boolean {
+  return typeof window !== 'undefined' && 'showOpenFilePicker' in window;
+}
+
+export async function readVaultFileLink(vaultId: string): Promise<VaultFileLink | null> {
+  const store = await linkStore('readonly');
+  return store ? ((await promisify(store.get(vaultId))) ?? null) : null;
+}
+
+async function writeVaultFileLink(vaultId: string, link: VaultFileLink): Promise<void> {
+  const store = await linkStore('readwrite');
+  if (!store) throw new VaultFileError('Vault files are not supported in this browser');
+  await promisify(store.put(link, vaultId));
+}
+
+// Stop keeping the vault in its file. The file itself is left alone.
+export async function unlinkVaultFile(vaultId: string): Promise<void> {
+  const store = await linkStore('readwrite');
+  if (store) await promisify(store.delete(vaultId));
+}
+
+async function exportOrThrow(vaultId: string): Promise<string> {
+  const data = await exportVault(vaultId);
+  if (!data) throw new VaultFileError('The vault could not be read');
+  return data;
+}
+
+// Read the file, asking for access first if requestAccess is set. Access can only be
+// requested in response to a click.
+async function readFile(handle: FileSystemFileHandle, requestAccess = false): Promise<File> {
+  const permissions = handle as unknown as PermissionHandle;
+  let state = await permissions.queryPermission({ mode: 'readwrite' });
+  if (state === 'prompt' && requestAccess) state = await permissions.requestPermission({ mode: 'readwrite' });
+  if (state !== 'granted') throw new VaultFileError('SecureVault needs permission to use the vault file');
+
+  try {
+    return await handle.getFile();
+  } catch {
+    throw new VaultFileError(`The vault file ${handle.name} could not be found. It may have been moved or deleted.`);
+  }
+}
+
+async function writeFile(handle: FileSystemFileHandle, data: string): Promise<File> {
+  try {
+    const writable = await handle.createWritable();
+    await writable.write(data);
+    await writable.close();
+    return await handle.getFile();
+  } catch {
+    throw new VaultFileError(`The vault file ${handle.name} could not be written`);
+  }
+}
+
+// Let the user choose a vault file to open. Null if they cancelled.
+export async function pickVaultFile(): Promise<FileSystemFileHandle | null> {
+  try {
+    const [handle] = await (window as unknown as FilePickerWindow).showOpenFilePicker({ types: FILE_TYPES });
+    return handle;
+  } catch {
+    return null;
+  }
+}
+
+// Let the user choose where to create a vault file. Null if they cancelled.
+export async function pickNewVaultFile(suggestedName: string): Promise<FileSystemFileHandle | null> {
+  try {
+    return await (window as unknown as FilePickerWindow).showSaveFilePicker({ suggestedName, types: FILE_TYPES });
+  } catch {
+    return null;
+  }
+}
+
+// Open a vault file, chosen with pickVaultFile or uploaded. A vault already on this device
+// is only replaced by its file when replace is set; otherwise it is returned so the user
+// can confirm.
+export async function openVaultFile(
+  source: FileSystemFileHandle | File,
+  options: { replace?: boolean } = {}
+): Promise<OpenedVaultFile> {
+  const handle = source instanceof File ? null : source;
+  const file = handle ? await readFile(handle, true) : (source as File);
+  const data = await file.text();
+  const info = await readBackupInfo(data);
+  if (!info) throw new VaultFileError('This is not a SecureVault vault file');
+  if (info.existing && !options.replace) return { replaces: info.existing };
+
+  const vaultId = await importVault(data, { replace: info.existing !== null });
+  if (!vaultId) throw new VaultFileError('This is not a SecureVault vault file');
+  await writeVaultFileLink(vaultId, {
+    handle,
+    fileName: file.name,
+    lastModified: file.lastModified,
+    fingerprint: await fingerprintExport(await exportOrThrow(vaultId)),
+    savedAt: null,
+  });
+  return { vaultId };
+}
+
+// Keep a vault in a file from now on. With a handle the vault is written to it right away;
+// without one the file has to be downloaded with downloadVaultFile.
+export async function linkVaultFile(vaultId: string, handle: FileSystemFileHandle | null, fileName: string): Promise<void> {
+  if (!handle) {
+    await writeVaultFileLink(vaultId, { handle, fileName, lastModified: 0, fingerprint: '', savedAt: null });
+    return;
+  }
+  const data = await exportOrThrow(vaultId);
+  const file = await writeFile(handle, data);
+  await writeVaultFileLink(vaultId, {
+    handle,
+    fileName: handle.name,
+    lastModified: file.lastModified,
+    fingerprint: await fingerprintExport(data),
+    savedAt: Date.now(),
+  });
+}
+
+// Compare the vault with its file and write changes to it. A file changed elsewhere is
+// never overwritten unless overwrite is set. Returns null if the vault has no file.
+export async function syncVaultFile(
+  vaultId: string,
+  options: { overwrite?: boolean; requestAccess?: boolean } = {}
+): Promise<VaultFileStatus | null> {
+  const link = await readVaultFileLink(vaultId);
+  if (!link) return null;
+
+  const data = await exportOrThrow(vaultId);
+  const current = await fingerprintExport(data);
+  const vaultChanged = current !== link.fingerprint;
+  if (!link.handle) return vaultChanged ? 'unsaved' : 'unchanged';
+
+  const file = await readFile(link.handle, options.requestAccess);
+  let fileChanged = false;
+  if (file.lastModified !== link.lastModified) {
+    fileChanged = (await fingerprintExport(await file.text()).catch(() => '')) !== link.fingerprint;
+    // Touched but not changed
+    if (!fileChanged) await writeVaultFileLink(vaultId, { ...link, lastModified: file.lastModified });
+  }
+
+  if (fileChanged && !options.overwrite) return vaultChanged ? 'conflict' : 'changed';
+  if (!fileChanged && !vaultChanged) return 'unchanged';
+
+  const written = await writeFile(link.handle, data);
+  await writeVaultFileLink(vaultId, {
+    ...link,
+    lastModified: written.lastModified,
+    fingerprint: current,
+    savedAt: Date.now(),
+  });
+  return 'saved';
+}
+
+// Replace the vault's working copy with the file after it was changed elsewhere. An open
+// vault has to be reloaded afterwards. Returns a warning if the file is older than a
+// version this device has already seen.
+export async function loadVaultFile(vaultId: string): Promise<RollbackWarning | null> {
+  const link = await readVaultFileLink(vaultId);
+  if (!link?.handle) throw new VaultFileError('This vault is not kept in a file');
+
+  const file = await readFile(link.handle);
+  const data = await file.text();
+  const info = await readBackupInfo(data).catch(() => null);
+  if (!info) throw new VaultFileError('The vault file is damaged or not a SecureVault vault file');
+  if (info.vaultId !== vaultId) throw new VaultFileError('The vault file now holds a different vault');
+
+  const rollback = await loadVaultCopy(vaultId, data);
+  await writeVaultFileLink(vaultId, {
+    ...link,
+    lastModified: file.lastModified,
+    fingerprint: await fingerprintExport(await exportOrThrow(vaultId)),
+  });
+  return rollback;
+}
+
+// Download the vault file where there are no file handles. The file counts as saved from
+// then on.
+export async function downloadVaultFile(vaultId: string): Promise<void> {
+  const link = await readVaultFileLink(vaultId);
+  if (!link) throw new VaultFileError('This vault is not kept in a file');
+  const data = await exportOrThrow(vaultId);
+
+  downloadFile(data, link.fileName);
+  await writeVaultFileLink(vaultId, { ...link, fingerprint: await fingerprintExport(data), savedAt: Date.now() });
+}
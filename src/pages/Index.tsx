@@ -1,12 +1,23 @@
 import { useState, useEffect } from 'react';
 import { MasterPassword } from '@/components/MasterPassword';
 import { VaultDashboard } from '@/components/VaultDashboard';
-import { Credential } from '@/lib/vault';
+import { UpdatePrompt } from '@/components/UpdatePrompt';
+import { Credential, VaultSession, lockVault, reloadVault, transferCredentials } from '@/lib/vault';
+import { postTabMessage, subscribeTabMessages } from '@/lib/tabs';
+import { AppUpdate, registerServiceWorker } from '@/lib/pwa';
+import { toast } from 'sonner';
+
+interface OpenVault {
+  session: VaultSession;
+  name: string;
+  credentials: Credential[];
+}
 
 const Index = () => {
-  const [isUnlocked, setIsUnlocked] = useState(false);
-  const [credentials, setCredentials] = useState<Credential[]>([]);
-  const [masterPassword, setMasterPassword] = useState('');
+  const [openVaults, setOpenVaults] = useState<OpenVault[]>([]);
+  const [activeVaultId, setActiveVaultId] = useState<string | null>(null);
+  const [isUnlockingAnother, setIsUnlockingAnother] = useState(false);
+  const [update, setUpdate] = useState<AppUpdate | null>(null);
 
   useEffect(() => {
     document.title = 'SecureVault - Password Manager';
@@ -16,27 +27,106 @@ const Index = () => {
     }
   }, []);
 
-  const handleUnlock = (creds: Credential[], password: string) => {
-    setCredentials(creds);
-    setMasterPassword(password);
-    setIsUnlocked(true);
+  useEffect(() => {
+    registerServiceWorker(setUpdate).catch(() => {
+      // Without a service worker the app still works, just not offline
+    });
+  }, []);
+
+  const activeVault = openVaults.find((vault) => vault.session.vaultId === activeVaultId) ?? null;
+
+  const handleUnlock = (creds: Credential[], unlockedSession: VaultSession, name: string) => {
+    setOpenVaults((vaults) => [
+      ...vaults.filter((vault) => vault.session.vaultId !== unlockedSession.vaultId),
+      { session: unlockedSession, name, credentials: creds },
+    ]);
+    setActiveVaultId(unlockedSession.vaultId);
+    setIsUnlockingAnother(false);
   };
 
+  // Locking here locks the same vaults in every other tab
   const handleLock = () => {
-    setIsUnlocked(false);
-    setCredentials([]);
-    setMasterPassword('');
+    postTabMessage({ type: 'locked', vaultIds: openVaults.map((vault) => vault.session.vaultId) });
+    openVaults.forEach((vault) => lockVault(vault.session));
+    setOpenVaults([]);
+    setActiveVaultId(null);
+    setIsUnlockingAnother(false);
+  };
+
+  const updateCredentials = (vaultId: string, creds: Credential[]) => {
+    setOpenVaults((vaults) =>
+      vaults.map((vault) => (vault.session.vaultId === vaultId ? { ...vault, credentials: creds } : vault))
+    );
   };
 
-  return isUnlocked ? (
-    <VaultDashboard
-      credentials={credentials}
-      masterPassword={masterPassword}
-      onLock={handleLock}
-      onUpdate={setCredentials}
-    />
-  ) : (
-    <MasterPassword onUnlock={handleUnlock} />
+  // The dashboard follows other tabs' changes to the vault it shows; the other open
+  // vaults are reloaded here
+  const shownVaultId = isUnlockingAnother ? null : activeVaultId;
+  useEffect(
+    () =>
+      subscribeTabMessages((message) => {
+        if (message.type === 'locked') {
+          if (openVaults.some((vault) => message.vaultIds.includes(vault.session.vaultId))) {
+            openVaults.forEach((vault) => lockVault(vault.session));
+            setOpenVaults([]);
+            setActiveVaultId(null);
+            setIsUnlockingAnother(false);
+            toast.info('Vault locked in another tab');
+          }
+          return;
+        }
+        const vault = openVaults.find((open) => open.session.vaultId === message.vaultId);
+        if (!vault || vault.session.vaultId === shownVaultId || message.revision <= vault.session.revision) return;
+        reloadVault(vault.session)
+          .then((creds) =>
+            setOpenVaults((vaults) => vaults.map((open) => (open.session.vaultId === message.vaultId ? { ...open, credentials: creds } : open)))
+          )
+          .catch(() => {
+            // Saving it again fails with a conflict and reloads it then
+          });
+      }),
+    [openVaults, shownVaultId]
+  );
+
+  const handleTransfer = async (ids: string[], targetVaultId: string, move: boolean) => {
+    const target = openVaults.find((vault) => vault.session.vaultId === targetVaultId);
+    if (!activeVault || !target) return;
+
+    const result = await transferCredentials(ids, activeVault, target, move);
+    updateCredentials(activeVault.session.vaultId, result.source);
+    updateCredentials(targetVaultId, result.target);
+  };
+
+  const updatePrompt = <UpdatePrompt update={update} isUnlocked={openVaults.length > 0} />;
+
+  if (!activeVault || isUnlockingAnother) {
+    return (
+      <>
+        <MasterPassword
+          onUnlock={handleUnlock}
+          onCancel={activeVault ? () => setIsUnlockingAnother(false) : undefined}
+          excludeVaultIds={openVaults.map((vault) => vault.session.vaultId)}
+        />
+        {updatePrompt}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <VaultDashboard
+        credentials={activeVault.credentials}
+        session={activeVault.session}
+        vaultName={activeVault.name}
+        openVaults={openVaults.map((vault) => ({ id: vault.session.vaultId, name: vault.name }))}
+        onLock={handleLock}
+        onUpdate={(creds) => updateCredentials(activeVault.session.vaultId, creds)}
+        onSwitchVault={setActiveVaultId}
+        onUnlockAnother={() => setIsUnlockingAnother(true)}
+        onTransfer={handleTransfer}
+      />
+      {updatePrompt}
+    </>
   );
 };
 
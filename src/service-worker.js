@@ -0,0 +1,94 @@
+// Service worker that makes SecureVault work offline. The build writes it to sw.js with
+// the list of built files and their SHA-256 hashes filled in (see vite.config.ts).
+//
+// Every file is downloaded with its hash as the fetch integrity, so the browser refuses a
+// copy that doesn't match, and a cached copy is checked again before it is first served.
+// A new version waits until the app tells it to take over, so an open vault is never
+// reloaded underneath the user.
+
+// Filled in by the build: [{ url, integrity }] relative to the app root, and a version
+// that changes whenever any file does
+const PRECACHE_MANIFEST = self.__PRECACHE_MANIFEST;
+const PRECACHE_VERSION = self.__PRECACHE_VERSION;
+
+const CACHE_PREFIX = 'securevault-';
+const CACHE_NAME = CACHE_PREFIX + PRECACHE_VERSION;
+// The app has a single page; every navigation is answered with it
+const INDEX_URL = new URL('index.html', self.registration.scope).href;
+
+// Expected integrity of each precached file by absolute URL
+const integrity = new Map(
+  PRECACHE_MANIFEST.map((entry) => [new URL(entry.url, self.registration.scope).href, entry.integrity])
+);
+// Cached files already checked since this worker started
+const verified = new Set();
+
+async function digest(response) {
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', await response.arrayBuffer()));
+  return `sha256-${btoa(String.fromCharCode(...hash))}`;
+}
+
+// Download a file and cache it. The browser rejects the response if it doesn't match its hash.
+async function fetchVerified(cache, url) {
+  const response = await fetch(url, { cache: 'no-cache', integrity: integrity.get(url) });
+  if (!response.ok) throw new Error(`${url} returned ${response.status}`);
+  await cache.put(url, response.clone());
+  verified.add(url);
+  return response;
+}
+
+// Serve a precached file. A cached copy that doesn't match its hash is replaced from the
+// network, or refused while offline rather than running code that may have been altered.
+async function respond(url) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(url);
+  if (cached && (verified.has(url) || (await digest(cached.clone())) === integrity.get(url))) {
+    verified.add(url);
+    return cached;
+  }
+  if (cached) await cache.delete(url);
+
+  try {
+    return await fetchVerified(cache, url);
+  } catch {
+    return new Response('SecureVault could not load a verified copy of this file. Connect to the internet and reload.', {
+      status: 503,
+      headers: { 'Content-Type': 'text/plain' },
+    });
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => Promise.all([...integrity.keys()].map((url) => fetchVerified(cache, url))))
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names.filter((name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME).map((name) => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Sent by the app once the user agreed to update
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  // Sync servers and other origins are never cached
+  if (url.origin !== self.location.origin) return;
+
+  const key = request.mode === 'navigate' ? INDEX_URL : url.origin + url.pathname;
+  if (integrity.has(key)) event.respondWith(respond(key));
+});
@@ -1,15 +1,55 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { createHash } from "crypto";
+import { readdirSync, readFileSync, writeFileSync } from "fs";
 import { componentTagger } from "lovable-tagger";
 
+const SERVICE_WORKER_SOURCE = path.resolve(__dirname, "./src/service-worker.js");
+const SERVICE_WORKER_FILE = "sw.js";
+
+// Files below dir as paths relative to it, with forward slashes
+function listFiles(dir: string, prefix = ""): string[] {
+  return readdirSync(path.join(dir, prefix), { withFileTypes: true }).flatMap((entry) => {
+    const file = prefix ? `${prefix}/${entry.name}` : entry.name;
+    return entry.isDirectory() ? listFiles(dir, file) : [file];
+  });
+}
+
+// Write the service worker once the build is done, with every built file and its SHA-256
+// hash to precache and verify
+function serviceWorker(): Plugin {
+  let outDir = "";
+  return {
+    name: "securevault-service-worker",
+    apply: "build",
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    closeBundle() {
+      const manifest = listFiles(outDir)
+        .filter((file) => file !== SERVICE_WORKER_FILE)
+        .sort()
+        .map((file) => ({
+          url: file,
+          integrity: `sha256-${createHash("sha256").update(readFileSync(path.join(outDir, file))).digest("base64")}`,
+        }));
+      const version = createHash("sha256").update(JSON.stringify(manifest)).digest("hex").slice(0, 16);
+      const source = readFileSync(SERVICE_WORKER_SOURCE, "utf8")
+        .replace("self.__PRECACHE_MANIFEST", () => JSON.stringify(manifest))
+        .replace("self.__PRECACHE_VERSION", () => JSON.stringify(version));
+      writeFileSync(path.join(outDir, SERVICE_WORKER_FILE), source);
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), mode === "development" && componentTagger(), serviceWorker()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),